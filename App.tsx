@@ -4,13 +4,40 @@
 */
 import React, { useState, useEffect, useRef, useMemo } from 'react';
 import { INTRO_STYLES, CUSTOM_STYLE, TRANSLATIONS } from './constants';
-import { IntroStyle, ScriptSegment } from './types';
-import { ALL_VOICES } from './voices';
+import { CastMember, IntroStyle, LlmSettings, MasteringSettings, MusicCue, MusicSettings, PauseSettings, Project, PronunciationEntry, ScriptSegment, SlideRange, StructuredScript, TtsSettings } from './types';
+import { ALL_VOICES, VoiceData } from './voices';
 import { StyleSelector } from './components/StyleSelector';
 import { BauhausButton, getColorClass, DownloadIcon, SquareIcon, RectIcon, IndeterminateProgressBar, CircleIcon, TriangleIcon } from './components/BauhausComponents';
 import { ConfigurationModal } from './components/ConfigurationModal';
 import { SystemPromptModal } from './components/SystemPromptModal';
-import { generateSpeech, createWavBlob, dramatizeText, generateScriptFromPDF, generateSequencedSpeech } from './services/geminiService';
+import { VideoExportModal } from './components/VideoExportModal';
+import { SubtitleExportModal } from './components/SubtitleExportModal';
+import { ScriptDiagnosticsPanel } from './components/ScriptDiagnosticsPanel';
+import { ProjectLibraryModal } from './components/ProjectLibraryModal';
+import { PronunciationModal } from './components/PronunciationModal';
+import { ScriptHistoryPanel } from './components/ScriptHistoryPanel';
+import { TranscriptEditor } from './components/TranscriptEditor';
+import { WaveformTimeline } from './components/WaveformTimeline';
+import { generateSpeech, createWavBlob, dramatizeText, generateScriptFromPDF, generateStructuredScriptFromPDF, generateSequencedSpeech, SegmentGenerationError, SpeechCheckpoint } from './services/geminiService';
+import { exportNarratedVideo, VideoFormat } from './services/videoExport';
+import { segmentsToSrt, segmentsToWebVtt, segmentsToChapterVtt, SubtitleFormat } from './services/subtitles';
+import { encodeEpisodeAudio, AUDIO_FORMATS, AudioFormat } from './services/audioEncoder';
+import { apiScheduler, DEFAULT_RATE_LIMITS, RateLimits } from './services/rateLimiter';
+import { createTtsProvider, DEFAULT_TTS_SETTINGS } from './services/ttsProviders';
+import { createLlmProvider, DEFAULT_LLM_SETTINGS } from './services/llmProviders';
+import { DEFAULT_PAUSE_SETTINGS } from './services/pauses';
+import { DEFAULT_MASTERING_SETTINGS } from './services/mastering';
+import { DEFAULT_MUSIC_SETTINGS, MUSIC_CUES } from './services/musicMixer';
+import { loadGlobalPronunciations, saveGlobalPronunciations, resolvePronunciations } from './services/pronunciation';
+import { toSpokenText } from './services/textNormalizer';
+import { parseScriptToSegments, getScriptSection, spliceSlideRange } from './services/scriptParser';
+import { exportProjectArchive, importProjectFile, PROJECT_FILE_EXTENSION } from './services/projectFile';
+import { createProjectId, loadProject, saveProject } from './services/projectLibrary';
+import { applyTurnsToScript, EditableTurn, scriptTextToTurns, structuredScriptToTurns, turnsToStructuredScript } from './services/turnEditor';
+import { createHistory, pushHistory, undoHistory, redoHistory, jumpToHistory, canUndo, canRedo, HistoryStepKind, ScriptHistory } from './services/scriptHistory';
+import { remapScriptSpeakers, renderStructuredScript, scriptFitsCast, structuredScriptToSegments, spliceStructuredSlides } from './services/structuredScript';
+import { lintScript, applyQuickFix, hasBlockingDiagnostics, QuickFix } from './services/scriptLinter';
+import { castFromStyle, localizeCast, addCastMember, removeCastMember, seatIdsAfterRemoval, getCastIndex, getSpeakerName, getSpeakerNames, MAX_CAST_SIZE, MIN_CAST_SIZE } from './services/cast';
 // @ts-ignore
 import * as pdfjsDist from 'pdfjs-dist';
 
@@ -21,101 +48,55 @@ if (pdfjsLib.GlobalWorkerOptions) {
   pdfjsLib.GlobalWorkerOptions.workerSrc = `https://cdn.jsdelivr.net/npm/pdfjs-dist@3.11.174/build/pdf.worker.min.js`;
 }
 
+// Quiet period after the last edit before the project is written to the library
+const AUTOSAVE_DELAY_MS = 1500;
+
+const clampSlide = (value: string, totalSlides: number) =>
+  Math.min(Math.max(1, parseInt(value, 10) || 1), Math.max(1, totalSlides));
+
 const Footer: React.FC<{ className?: string }> = ({ className }) => (
   <div className={`p-4 border-t-4 border-bauhaus-black bg-white text-[8px] text-gray-500 font-bold uppercase tracking-wider ${className}`}>
     Created by <a href="https://x.com/leslienooteboom" target="_blank" rel="noopener noreferrer" className="underline hover:text-bauhaus-red transition-colors">@leslienooteboom</a>
   </div>
 );
 
-// --- Parsing Logic ---
-// Updated to handle dynamic names
-function escapeRegExp(string: string) {
-  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
-}
-
-const parseScriptToSegments = (fullText: string, hostName: string, expertName: string): ScriptSegment[] => {
-  const segments: ScriptSegment[] = [];
-  const slideBlocks = fullText.split(/\[(?:\*\*)?SLIDE\s+(\d+)(?:\*\*)?\]/i);
-  
-  let currentSlideIndex = 0;
-  let runningTime = 0;
-  const CHARS_PER_SEC = 15; 
-
-  // Regex strategies
-  // 1. Check for "Name:" pattern at start of line
-  const hostLabelRegex = new RegExp(`^(?:\\*\\*)?(?:Host|${escapeRegExp(hostName)})(?:\\*\\*)?[:：]`, 'i');
-  const expertLabelRegex = new RegExp(`^(?:\\*\\*)?(?:Expert|${escapeRegExp(expertName)})(?:\\*\\*)?[:：]`, 'i');
-
-  // 2. Check for "Name" only line (exact match) - common in some Gemini outputs or copy-pastes
-  const hostLineRegex = new RegExp(`^(?:\\*\\*)?(?:Host|${escapeRegExp(hostName)})(?:\\*\\*)?$`, 'i');
-  const expertLineRegex = new RegExp(`^(?:\\*\\*)?(?:Expert|${escapeRegExp(expertName)})(?:\\*\\*)?$`, 'i');
-
-  let currentSpeaker: 'Host' | 'Expert' | null = null;
-
-  for (let i = 0; i < slideBlocks.length; i++) {
-    const block = slideBlocks[i];
-    
-    if (/^\d+$/.test(block)) {
-      const pageNum = parseInt(block, 10);
-      currentSlideIndex = Math.max(0, pageNum - 1); 
-      continue;
-    }
-
-    const lines = block.split('\n');
-    for (const line of lines) {
-      const trimmed = line.trim();
-      if (!trimmed) continue;
-
-      let content = trimmed;
-      let speakerChanged = false;
-
-      // Check for label prefix first "Name: Text"
-      if (hostLabelRegex.test(trimmed)) {
-        currentSpeaker = 'Host';
-        content = trimmed.replace(hostLabelRegex, '').trim();
-        speakerChanged = true;
-      } else if (expertLabelRegex.test(trimmed)) {
-        currentSpeaker = 'Expert';
-        content = trimmed.replace(expertLabelRegex, '').trim();
-        speakerChanged = true;
-      } 
-      // Check for standalone name line "Name"
-      else if (hostLineRegex.test(trimmed)) {
-        currentSpeaker = 'Host';
-        continue; // Skip this line, it's just a label
-      } else if (expertLineRegex.test(trimmed)) {
-        currentSpeaker = 'Expert';
-        continue; // Skip this line
-      }
+const downloadBlob = (blob: Blob, filename: string) => {
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  URL.revokeObjectURL(url);
+};
 
-      // If we have an identified speaker, process the text
-      if (currentSpeaker && content) {
-        // Robust Sentence Splitting
-        // Replace punctuation with "Punctuation + SplitMarker"
-        // 1. Japanese: 。！？ => add \n
-        let formatted = content.replace(/([。！？]+)/g, "$1\n");
-        // 2. English: .!? followed by space => add \n (avoids 3.14)
-        formatted = formatted.replace(/([.!?]+)(\s+)/g, "$1\n$2");
-        
-        // Split and filter
-        const rawSentences = formatted.split('\n').map(s => s.trim()).filter(s => s.length > 0);
-
-        for (const cleanSentence of rawSentences) {
-            const duration = Math.max(1.5, cleanSentence.length / CHARS_PER_SEC);
-            segments.push({
-              id: Math.random().toString(36).substr(2, 9),
-              slideIndex: currentSlideIndex,
-              speaker: currentSpeaker,
-              text: cleanSentence,
-              startTime: runningTime,
-              endTime: runningTime + duration
-            });
-            runningTime += duration;
-        }
-      }
-    }
+// Decodes the generated WAV so exports use exactly the audio the segments were timed against
+const decodeEpisodeAudio = async (url: string): Promise<AudioBuffer> => {
+  const ctx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+  try {
+    const wavData = await (await fetch(url)).arrayBuffer();
+    return await ctx.decodeAudioData(wavData);
+  } finally {
+    await ctx.close();
   }
-  return segments;
+};
+
+// --- Cast Styling ---
+// Colors per cast seat for names, transcript bubbles and the live subtitle. The host sits on the left.
+const SEAT_STYLES = [
+  { label: 'text-bauhaus-blue', underline: 'border-bauhaus-blue', bubble: 'bg-white border-2 border-bauhaus-blue text-gray-800', live: 'bg-bauhaus-blue text-white', Icon: CircleIcon, iconClass: '' },
+  { label: 'text-bauhaus-black', underline: 'border-bauhaus-yellow', bubble: 'bg-bauhaus-yellow/20 border-2 border-bauhaus-black text-gray-900', live: 'bg-bauhaus-yellow text-bauhaus-black', Icon: TriangleIcon, iconClass: 'text-bauhaus-yellow' },
+  { label: 'text-bauhaus-red', underline: 'border-bauhaus-red', bubble: 'bg-bauhaus-red/10 border-2 border-bauhaus-red text-gray-900', live: 'bg-bauhaus-red text-white', Icon: SquareIcon, iconClass: '' },
+  { label: 'text-bauhaus-black', underline: 'border-bauhaus-black', bubble: 'bg-gray-100 border-2 border-bauhaus-black text-gray-900', live: 'bg-bauhaus-black text-white', Icon: CircleIcon, iconClass: '' },
+];
+
+const getSeat = (cast: CastMember[], speakerId: string) => Math.max(0, getCastIndex(cast, speakerId));
+const getSeatStyle = (cast: CastMember[], speakerId: string) => SEAT_STYLES[getSeat(cast, speakerId) % SEAT_STYLES.length];
+
+const SeatIcon: React.FC<{ seat: number; className?: string }> = ({ seat, className = '' }) => {
+  const { Icon } = SEAT_STYLES[seat % SEAT_STYLES.length];
+  return <Icon className={`w-2 h-2 ${className}`} />;
 };
 
 // --- Presentation Slide Viewer ---
@@ -123,7 +104,8 @@ const PresentationViewer: React.FC<{
   url: string | null; 
   activeSlideIndex: number;
   onImagesLoaded: (count: number) => void;
-}> = ({ url, activeSlideIndex, onImagesLoaded }) => {
+  onSlidesRendered?: (images: string[]) => void;
+}> = ({ url, activeSlideIndex, onImagesLoaded, onSlidesRendered }) => {
   const [images, setImages] = useState<string[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -131,6 +113,7 @@ const PresentationViewer: React.FC<{
   useEffect(() => {
     if (!url) {
       setImages([]);
+      onSlidesRendered?.([]);
       return;
     }
     const loadPdf = async () => {
@@ -159,6 +142,7 @@ const PresentationViewer: React.FC<{
           } catch (e) { console.error(e); }
         }
         setImages(loadedImages);
+        onSlidesRendered?.(loadedImages);
       } catch (err) {
         console.error("Error loading PDF", err);
         setError("PDFの読み込みに失敗しました。");
@@ -203,23 +187,15 @@ const PresentationViewer: React.FC<{
 };
 
 // --- Script Importer Component ---
-const ScriptImporter: React.FC<{ onImport: (data: any) => void; label: string }> = ({ onImport, label }) => {
+const ScriptImporter: React.FC<{ onImport: (file: File) => void; label: string }> = ({ onImport, label }) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (ev) => {
-      try {
-        const json = JSON.parse(ev.target?.result as string);
-        onImport(json);
-      } catch (err) {
-        alert("Invalid file format");
-      }
-    };
-    reader.readAsText(file);
+    // Project archives (v2) and legacy JSON exports (v1) are told apart by content
+    onImport(file);
     // Reset
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
@@ -234,7 +210,7 @@ const ScriptImporter: React.FC<{ onImport: (data: any) => void; label: string }>
       </button>
       <input 
         type="file" 
-        accept="application/json" 
+        accept={`application/json,application/zip,.json,${PROJECT_FILE_EXTENSION}`} 
         ref={fileInputRef} 
         onChange={handleFileChange} 
         className="hidden" 
@@ -248,8 +224,7 @@ const App: React.FC = () => {
   const [language, setLanguage] = useState<'ja' | 'en'>('ja');
   const [currentStyle, setCurrentStyle] = useState<IntroStyle>(INTRO_STYLES[0]);
   const [text, setText] = useState<string>("");
-  const [hostName, setHostName] = useState("こはく");
-  const [expertName, setExpertName] = useState("まき");
+  const [cast, setCast] = useState<CastMember[]>(() => castFromStyle(INTRO_STYLES[0], 'ja'));
   
   // --- Audio/Playback State ---
   const [isPlaying, setIsPlaying] = useState(false);
@@ -264,57 +239,265 @@ const App: React.FC = () => {
   const [pdfBase64, setPdfBase64] = useState<string | null>(null);
   const [pdfUrl, setPdfUrl] = useState<string | null>(null);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
+  const [regenerateRange, setRegenerateRange] = useState<SlideRange>({ from: 1, to: 1 });
+  const [isRegenerating, setIsRegenerating] = useState(false);
   const [scriptGenerated, setScriptGenerated] = useState(false);
+  // Structure behind the script text when it was generated as JSON; ignored once the text is edited
+  const [structuredScript, setStructuredScript] = useState<{ script: StructuredScript, text: string } | null>(null);
+  const [history, setHistory] = useState<ScriptHistory>(() => createHistory());
   const [segments, setSegments] = useState<ScriptSegment[]>([]);
   const [activeSegmentIndex, setActiveSegmentIndex] = useState<number>(-1);
   const [activeSlideIndex, setActiveSlideIndex] = useState(0);
   const [totalSlides, setTotalSlides] = useState(0);
+  const [slideImages, setSlideImages] = useState<string[]>([]);
 
   // --- UI State ---
   const [activeTab, setActiveTab] = useState<'script' | 'slides'>('script');
   const [isScriptEditing, setIsScriptEditing] = useState(false);
+  const [isDiagnosticsOpen, setIsDiagnosticsOpen] = useState(false);
+  const [isHistoryOpen, setIsHistoryOpen] = useState(false);
+  const [isSpokenPreview, setIsSpokenPreview] = useState(false);
   const [isConfigOpen, setIsConfigOpen] = useState(false);
   const [isPromptOpen, setIsPromptOpen] = useState(false);
-  const [selectedVoice, setSelectedVoice] = useState<string>(INTRO_STYLES[0].defaultVoice);
-  const [secondVoice, setSecondVoice] = useState<string>(INTRO_STYLES[0].secondVoice || 'Kore');
   const [error, setError] = useState<string | null>(null);
   const [downloadData, setDownloadData] = useState<{ url: string, filename: string } | null>(null);
   const [customStylePrompt, setCustomStylePrompt] = useState<string>(CUSTOM_STYLE.description);
+  const [isVideoExportOpen, setIsVideoExportOpen] = useState(false);
+  const [isSubtitleExportOpen, setIsSubtitleExportOpen] = useState(false);
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [isGlossaryOpen, setIsGlossaryOpen] = useState(false);
+  const [projectId, setProjectId] = useState<string | null>(null);
+  const [lastSavedAt, setLastSavedAt] = useState<number | null>(null);
+  const [audioFormat, setAudioFormat] = useState<AudioFormat>('wav');
+  const [audioBitrate, setAudioBitrate] = useState<number>(AUDIO_FORMATS.wav.defaultBitrate);
+  const [isEncodingAudio, setIsEncodingAudio] = useState(false);
+  const [rateLimits, setRateLimits] = useState<RateLimits>(DEFAULT_RATE_LIMITS);
+  const [ttsSettings, setTtsSettings] = useState<TtsSettings>(DEFAULT_TTS_SETTINGS);
+  const [voices, setVoices] = useState<VoiceData[]>(ALL_VOICES);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(DEFAULT_LLM_SETTINGS);
+  const [pauseSettings, setPauseSettings] = useState<PauseSettings>(DEFAULT_PAUSE_SETTINGS);
+  const [masteringSettings, setMasteringSettings] = useState<MasteringSettings>(DEFAULT_MASTERING_SETTINGS);
+  const [musicTracks, setMusicTracks] = useState<Partial<Record<MusicCue, File>>>({});
+  const [musicSettings, setMusicSettings] = useState<MusicSettings>(DEFAULT_MUSIC_SETTINGS);
+  const [projectPronunciations, setProjectPronunciations] = useState<PronunciationEntry[]>([]);
+  const [globalPronunciations, setGlobalPronunciations] = useState<PronunciationEntry[]>([]);
+  const [isExportingVideo, setIsExportingVideo] = useState(false);
+  const [videoExportProgress, setVideoExportProgress] = useState(0);
   
   // Sidebar always collapsed (icon only) for simplicity
   const isSidebarCollapsed = true;
 
   const generationIdRef = useRef(0);
+  const speechCheckpointRef = useRef<SpeechCheckpoint>(new Map());
+  const restoredProjectRef = useRef<{ text: string, segments: ScriptSegment[] } | null>(null);
+  // Audio settings the current audio was made with; null adopts the next ones (a project was just opened)
+  const audioSettingsKeyRef = useRef<string | null>(null);
+  const autosaveRef = useRef<() => Promise<void>>(async () => {});
+  // Latest script for async operations that finish after the user kept editing
+  const scriptRef = useRef({ text, structuredScript });
+  scriptRef.current = { text, structuredScript };
+  const isDirtyRef = useRef(false);
+  const skipAutosaveRef = useRef(false);
+  const [skippedSegmentKeys, setSkippedSegmentKeys] = useState<ReadonlySet<string>>(new Set<string>());
+  const [failedSegment, setFailedSegment] = useState<SegmentGenerationError | null>(null);
+  const [generationProgress, setGenerationProgress] = useState<{ completed: number, total: number } | null>(null);
   
   const t = TRANSLATIONS[language];
 
+  const ttsProvider = useMemo(() => createTtsProvider(ttsSettings), [ttsSettings]);
+  const llmProvider = useMemo(() => createLlmProvider(llmSettings), [llmSettings]);
+  // Only names and ids affect parsing; voice settings invalidate the audio separately (audioSettingsKey)
+  const castLabels = cast.map(m => `${m.id}:${m.name}`).join('|');
+
+  // The structure is used while it matches the text and names only speakers still in the cast
+  const currentStructure = structuredScript && structuredScript.text === text && scriptFitsCast(structuredScript.script, cast)
+    ? structuredScript.script
+    : null;
+
+  const buildSegments = (): ScriptSegment[] =>
+    currentStructure ? structuredScriptToSegments(currentStructure) : parseScriptToSegments(text, cast);
+
+  // Turns for the transcript editor: straight from the structure when it is current, else read from the text
+  const editorTurns = useMemo(() =>
+    currentStructure ? structuredScriptToTurns(currentStructure) : scriptTextToTurns(text, cast),
+    [currentStructure, text, castLabels]);
+
+  // Where each script turn (EditableTurn.source) starts in the generated audio
+  const turnStartTimes = useMemo(() => {
+    const starts: number[] = [];
+    if (!downloadData) return starts;
+    for (const seg of segments) {
+      if (seg.turn !== undefined && starts[seg.turn] === undefined) starts[seg.turn] = seg.startTime;
+    }
+    return starts;
+  }, [segments, downloadData]);
+
+  // An interjection mixed over the line that is playing; shown beside its subtitle
+  const overlappingSegment = segments.find((seg, i) =>
+    seg.interjection && i !== activeSegmentIndex && currentTime >= seg.startTime && currentTime < seg.endTime
+  );
+
+  // Lint on every edit so problems show up before synthesis
+  const diagnostics = useMemo(() => lintScript(text, cast, totalSlides), [text, castLabels, totalSlides]);
+
+  const resolvedPronunciations = useMemo(
+    () => resolvePronunciations(globalPronunciations, projectPronunciations, language),
+    [globalPronunciations, projectPronunciations, language]
+  );
+
+  // Everything besides the script that shapes the rendered episode
+  const audioSettingsKey = JSON.stringify({
+    pauseSettings,
+    masteringSettings,
+    musicSettings,
+    musicTracks: MUSIC_CUES.map(cue => musicTracks[cue] && [musicTracks[cue].name, musicTracks[cue].size, musicTracks[cue].lastModified]),
+    pronunciations: resolvedPronunciations,
+    voices: cast.map(m => [m.voice, m.rate ?? 1, m.pitch ?? 0]),
+  });
+
   // --- Effects ---
 
   // Handle language switch default names
   useEffect(() => {
     // If names match the defaults of the previous language (or just default to new language defaults if not touched)
     // For simplicity, if the current names match the OTHER language's defaults, switch them.
+    setCast(prev => localizeCast(prev, currentStyle, language));
     if (language === 'en') {
-      if (hostName === TRANSLATIONS.ja.defaultHostName) setHostName(TRANSLATIONS.en.defaultHostName);
-      if (expertName === TRANSLATIONS.ja.defaultExpertName) setExpertName(TRANSLATIONS.en.defaultExpertName);
       // Update custom prompt description if it's the default
       if (customStylePrompt === CUSTOM_STYLE.description) setCustomStylePrompt(CUSTOM_STYLE.descriptionEn);
     } else {
-      if (hostName === TRANSLATIONS.en.defaultHostName) setHostName(TRANSLATIONS.ja.defaultHostName);
-      if (expertName === TRANSLATIONS.en.defaultExpertName) setExpertName(TRANSLATIONS.ja.defaultExpertName);
       if (customStylePrompt === CUSTOM_STYLE.descriptionEn) setCustomStylePrompt(CUSTOM_STYLE.description);
     }
   }, [language]);
 
+  // The global glossary lives in IndexedDB, outside any project
+  useEffect(() => {
+    loadGlobalPronunciations()
+      .then(setGlobalPronunciations)
+      .catch(err => console.warn("Failed to load the pronunciation glossary:", err));
+  }, []);
+
+  const handleGlobalPronunciationsChange = (entries: PronunciationEntry[]) => {
+    setGlobalPronunciations(entries);
+    saveGlobalPronunciations(entries).catch(err => console.warn("Failed to save the pronunciation glossary:", err));
+  };
+
   // Re-parse script when text or names change
   useEffect(() => {
+    // A project that was just opened brings timings that match its saved audio
+    const restored = restoredProjectRef.current;
+    restoredProjectRef.current = null;
+    if (restored && restored.text === text) {
+      setSegments(restored.segments);
+      return;
+    }
     if (text) {
-      const parsed = parseScriptToSegments(text, hostName, expertName);
+      const parsed = buildSegments();
       setSegments(parsed);
       // When text changes, downloadData becomes invalid, so we reset
       setDownloadData(null);
+      setSkippedSegmentKeys(new Set());
+      setFailedSegment(null);
+    }
+  }, [text, castLabels, structuredScript]);
+
+  // Changed audio settings make the audio stale; the clip cache keeps re-rendering cheap
+  useEffect(() => {
+    const previous = audioSettingsKeyRef.current;
+    audioSettingsKeyRef.current = audioSettingsKey;
+    if (previous !== null && previous !== audioSettingsKey) setDownloadData(null);
+  }, [audioSettingsKey, downloadData]);
+
+  // Autosave to the local library a moment after the last change
+  useEffect(() => {
+    if (skipAutosaveRef.current) {
+      // Just opened from the library; nothing has changed yet
+      skipAutosaveRef.current = false;
+      return;
+    }
+    if (!text.trim()) return;
+    isDirtyRef.current = true;
+    const timer = setTimeout(() => autosaveRef.current(), AUTOSAVE_DELAY_MS);
+    return () => clearTimeout(timer);
+  }, [text, cast, structuredScript, language, currentStyle, customStylePrompt, pdfBase64, downloadData, projectPronunciations]);
+
+  // Undo/redo shortcuts for the script; other fields and open dialogs keep their native behaviour
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.altKey || !scriptGenerated) return;
+      const target = e.target as HTMLElement;
+      if (target.closest('input, select, textarea:not([data-script-editor]), [contenteditable="true"]')) return;
+      if (document.querySelector('[aria-modal="true"]')) return;
+
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        handleUndo();
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        handleRedo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [history, scriptGenerated]);
+
+  // Flush pending edits when the tab is hidden or closed
+  useEffect(() => {
+    const flush = () => { if (document.visibilityState === 'hidden') autosaveRef.current(); };
+    window.addEventListener('pagehide', flush);
+    document.addEventListener('visibilitychange', flush);
+    return () => {
+      window.removeEventListener('pagehide', flush);
+      document.removeEventListener('visibilitychange', flush);
+    };
+  }, []);
+
+  // Apply rate limits to the shared API scheduler
+  useEffect(() => {
+    apiScheduler.configure(rateLimits);
+  }, [rateLimits]);
+
+  // Load the voice list of the active speech engine
+  useEffect(() => {
+    let cancelled = false;
+    ttsProvider.listVoices()
+      .then(list => { if (!cancelled) setVoices(list); })
+      .catch(err => {
+        console.error(err);
+        if (!cancelled) {
+          setVoices([]);
+          setError(t.errorVoices + (err instanceof Error ? err.message : String(err)));
+        }
+      });
+    return () => { cancelled = true; };
+  }, [ttsProvider]);
+
+  // Fall back to voices the engine actually offers (e.g. after switching engines or styles)
+  useEffect(() => {
+    if (voices.length === 0) return;
+    const hasVoice = (name: string) => voices.some(v => v.name === name);
+    if (cast.every(m => hasVoice(m.voice))) return;
+    setCast(prev => prev.map((m, i) => hasVoice(m.voice) ? m : { ...m, voice: (voices[i] ?? voices[0]).name }));
+  }, [voices, cast]);
+
+  // Points the transcript, slide and subtitle at whatever is heard at time `t`
+  const syncToTime = (t: number) => {
+    setCurrentTime(t);
+    if (audioElemRef.current) setDuration(audioElemRef.current.duration || 0);
+
+    // Exact Sync with buffered segments
+    const foundIndex = segments.findIndex(seg => t >= seg.startTime && t < seg.endTime);
+
+    if (foundIndex !== -1) {
+      setActiveSegmentIndex(foundIndex);
+      setActiveSlideIndex(segments[foundIndex].slideIndex);
+    } else if (segments.length > 0 && t >= segments[segments.length - 1].endTime) {
+       // Ended or near end
+       setActiveSegmentIndex(segments.length - 1);
+       setActiveSlideIndex(segments[segments.length - 1].slideIndex);
     }
-  }, [text, hostName, expertName]);
+  };
 
   // Sync logic
   useEffect(() => {
@@ -322,22 +505,7 @@ const App: React.FC = () => {
     
     const updateSync = () => {
       if (audioElemRef.current && !audioElemRef.current.paused) {
-        const t = audioElemRef.current.currentTime;
-        setCurrentTime(t);
-        setDuration(audioElemRef.current.duration || 0);
-
-        // Exact Sync with buffered segments
-        const foundIndex = segments.findIndex(seg => t >= seg.startTime && t < seg.endTime);
-        
-        if (foundIndex !== -1) {
-          setActiveSegmentIndex(foundIndex);
-          setActiveSlideIndex(segments[foundIndex].slideIndex);
-        } else if (segments.length > 0 && t >= segments[segments.length - 1].endTime) {
-           // Ended or near end
-           setActiveSegmentIndex(segments.length - 1);
-           setActiveSlideIndex(segments[segments.length - 1].slideIndex);
-        }
-
+        syncToTime(audioElemRef.current.currentTime);
         animationFrameId = requestAnimationFrame(updateSync);
       }
     };
@@ -359,10 +527,22 @@ const App: React.FC = () => {
 
   // --- Handlers ---
 
+  // Seats keep their ids across styles; a speaker whose seat is gone drops the structure
+  const followSeatChange = (ids: Map<string, string>) =>
+    setStructuredScript(current => {
+      const script = current && remapScriptSpeakers(current.script, ids);
+      return current && script ? { ...current, script } : null;
+    });
+
+  const changeStyleCast = (style: IntroStyle) => {
+    const next = castFromStyle(style, language, cast);
+    setCast(next);
+    followSeatChange(new Map(next.map(member => [member.id, member.id])));
+  };
+
   const handleStyleChange = (style: IntroStyle) => {
     setCurrentStyle(style);
-    setSelectedVoice(style.defaultVoice);
-    if (style.secondVoice) setSecondVoice(style.secondVoice);
+    changeStyleCast(style);
     setError(null);
     setDownloadData(null); 
     
@@ -374,8 +554,7 @@ const App: React.FC = () => {
 
   const handleCustomize = () => {
     setCurrentStyle(CUSTOM_STYLE);
-    setSelectedVoice(CUSTOM_STYLE.defaultVoice);
-    if (CUSTOM_STYLE.secondVoice) setSecondVoice(CUSTOM_STYLE.secondVoice);
+    changeStyleCast(CUSTOM_STYLE);
     setIsPromptOpen(true);
     setError(null);
     setDownloadData(null);
@@ -384,7 +563,10 @@ const App: React.FC = () => {
   const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (file && file.type === 'application/pdf') {
+        // A new deck starts a new library entry; finish saving the previous one first
+        await autosaveRef.current();
         setPdfFile(file);
+        setProjectId(null);
         const url = URL.createObjectURL(file);
         setPdfUrl(url);
         setError(null);
@@ -400,17 +582,53 @@ const App: React.FC = () => {
     }
   };
 
+  // Every change to the script goes through here so it can be undone
+  const commitScript = (kind: HistoryStepKind, nextText: string, script: StructuredScript | null, detail?: string) => {
+    setText(nextText);
+    setStructuredScript(script ? { script, text: nextText } : null);
+    setHistory(h => pushHistory(h, kind, nextText, script, detail));
+    setDownloadData(null);
+  };
+
+  // Transcript edits are written back as marker text, keeping the structure alongside when there is one.
+  // Free text is edited in place, so lines the editor does not show survive
+  const handleTurnsChange = (turns: EditableTurn[]) => {
+    if (currentStructure) {
+      const script = turnsToStructuredScript(turns);
+      commitScript('transcript', renderStructuredScript(script, cast), script);
+    } else {
+      commitScript('transcript', applyTurnsToScript(text, cast, turns), null);
+    }
+  };
+
+  const restoreHistory = (next: ScriptHistory) => {
+    const entry = next.entries[next.index];
+    setHistory(next);
+    setText(entry.text);
+    setStructuredScript(entry.structuredScript ? { script: entry.structuredScript, text: entry.text } : null);
+  };
+
+  const handleUndo = () => { if (canUndo(history)) restoreHistory(undoHistory(history)); };
+  const handleRedo = () => { if (canRedo(history)) restoreHistory(redoHistory(history)); };
+
+  const getStylePrompt = () => currentStyle.id === 'custom'
+    ? customStylePrompt
+    : (language === 'en' ? currentStyle.descriptionEn : currentStyle.description);
+
   const handleGenerateScript = async () => {
     if (!pdfBase64) return;
     setIsAnalyzing(true);
     setError(null);
     try {
-        const prompt = currentStyle.id === 'custom' 
-            ? customStylePrompt 
-            : (language === 'en' ? currentStyle.descriptionEn : currentStyle.description);
+        const prompt = getStylePrompt();
             
-        const generatedScript = await generateScriptFromPDF(pdfBase64, prompt, hostName, expertName, language);
-        setText(generatedScript);
+        if (llmSettings.structuredOutput) {
+            const script = await generateStructuredScriptFromPDF(pdfBase64, prompt, cast, language, llmProvider);
+            commitScript('generate', renderStructuredScript(script, cast), script);
+        } else {
+            const generatedScript = await generateScriptFromPDF(pdfBase64, prompt, cast, language, llmProvider);
+            commitScript('generate', generatedScript, null);
+        }
         setScriptGenerated(true);
         setActiveTab('script'); 
     } catch (err) {
@@ -421,56 +639,188 @@ const App: React.FC = () => {
     }
   };
 
-  const handleExportScript = () => {
-    if (!text) return;
-    const data = {
-        version: 1,
-        text,
-        hostName,
-        expertName,
-        // Optional: Save PDF data if available so we can reconstruct the view
-        pdfBase64, 
-        timestamp: Date.now()
+  // Rewrites only the selected slides, keeping manual edits everywhere else
+  const handleRegenerateSlides = async () => {
+    if (!pdfBase64 || !text.trim()) return;
+    const range = {
+      from: Math.min(regenerateRange.from, regenerateRange.to),
+      to: Math.max(regenerateRange.from, regenerateRange.to),
     };
-    const blob = new Blob([JSON.stringify(data)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `podcast-script-${Date.now()}.json`;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
-  };
-
-  const handleImportScript = (data: any) => {
-    if (data.version === 1 && data.text) {
-        setText(data.text);
-        if (data.hostName) setHostName(data.hostName);
-        if (data.expertName) setExpertName(data.expertName);
-        
-        if (data.pdfBase64) {
-            setPdfBase64(data.pdfBase64);
-            // Reconstruct a Blob URL for the PDF viewer
-            const byteCharacters = atob(data.pdfBase64);
-            const byteNumbers = new Array(byteCharacters.length);
-            for (let i = 0; i < byteCharacters.length; i++) {
-                byteNumbers[i] = byteCharacters.charCodeAt(i);
+    setIsRegenerating(true);
+    setError(null);
+    try {
+        const prompt = getStylePrompt();
+        const section = getScriptSection(text, range);
+        const detail = range.from === range.to ? `${range.from}` : `${range.from}–${range.to}`;
+
+        if (llmSettings.structuredOutput) {
+            const part = await generateStructuredScriptFromPDF(pdfBase64, prompt, cast, language, llmProvider, section);
+            const latest = scriptRef.current;
+            if (latest.structuredScript && latest.structuredScript.text === latest.text && scriptFitsCast(latest.structuredScript.script, cast)) {
+                // Splice the data and re-render, so the script stays structured
+                const script = spliceStructuredSlides(latest.structuredScript.script, range, part);
+                commitScript('regenerate', renderStructuredScript(script, cast), script, detail);
+            } else {
+                commitScript('regenerate', spliceSlideRange(latest.text, range, renderStructuredScript(part, cast)), null, detail);
             }
-            const byteArray = new Uint8Array(byteNumbers);
-            const blob = new Blob([byteArray], {type: 'application/pdf'});
-            const url = URL.createObjectURL(blob);
-            setPdfUrl(url);
+        } else {
+            const part = await generateScriptFromPDF(pdfBase64, prompt, cast, language, llmProvider, section);
+            commitScript('regenerate', spliceSlideRange(scriptRef.current.text, range, part), null, detail);
         }
+    } catch (err) {
+        console.error(err);
+        setError(t.errorRegenerate);
+    } finally {
+        setIsRegenerating(false);
+    }
+  };
 
-        setScriptGenerated(true);
-        setActiveTab('script');
-        setIsScriptEditing(false); // Default to read mode
+  const getProject = async (): Promise<Project> => ({
+    language,
+    styleId: currentStyle.id,
+    customStylePrompt,
+    cast,
+    text,
+    structuredScript: structuredScript?.text === text ? structuredScript.script : undefined,
+    segments,
+    pdfBase64: pdfBase64 ?? undefined,
+    pdfName: pdfFile?.name,
+    // Generated audio is only valid while it matches the script
+    audio: downloadData ? await (await fetch(downloadData.url)).blob() : undefined,
+    pronunciations: projectPronunciations,
+  });
+
+  // Reads state through a ref from timers and unload handlers, so it always saves the latest render
+  autosaveRef.current = async () => {
+    if (!isDirtyRef.current || !text.trim()) return;
+    isDirtyRef.current = false;
+    const id = projectId ?? createProjectId();
+    setProjectId(id);
+    try {
+        await saveProject(id, await getProject(), totalSlides);
+        setLastSavedAt(Date.now());
+    } catch (err) {
+        console.warn("Autosave failed:", err);
+        isDirtyRef.current = true;
+    }
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+        await autosaveRef.current();
+        const project = await loadProject(id);
+        skipAutosaveRef.current = true;
+        applyProject(project);
+        setProjectId(id);
+        setIsLibraryOpen(false);
+        setError(null);
+    } catch (err) {
+        console.error(err);
+        setError(t.libraryError);
+    }
+  };
+
+  const handleExportScript = async () => {
+    if (!text) return;
+    try {
+        const blob = await exportProjectArchive(await getProject());
+        const url = URL.createObjectURL(blob);
+        const a = document.createElement('a');
+        a.href = url;
+        a.download = `podcast-project-${Date.now()}${PROJECT_FILE_EXTENSION}`;
+        document.body.appendChild(a);
+        a.click();
+        document.body.removeChild(a);
+        URL.revokeObjectURL(url);
+    } catch (err) {
+        console.error(err);
+        setError(t.errorExport);
+    }
+  };
+
+  const applyProject = (project: Project) => {
+    const style = [...INTRO_STYLES, CUSTOM_STYLE].find(s => s.id === project.styleId) ?? currentStyle;
+    setLanguage(project.language);
+    setCurrentStyle(style);
+    setCustomStylePrompt(project.customStylePrompt);
+    setCast(project.cast);
+    setProjectPronunciations(project.pronunciations ?? []);
+    setStructuredScript(project.structuredScript ? { script: project.structuredScript, text: project.text } : null);
+
+    // Saved timings are only kept together with the audio they were measured on
+    if (project.audio && project.segments.length > 0) {
+        restoredProjectRef.current = { text: project.text, segments: project.segments };
+        audioSettingsKeyRef.current = null;
+        setSegments(project.segments);
+        setDownloadData({ url: URL.createObjectURL(project.audio), filename: `podcast-${Date.now()}.wav` });
     } else {
+        setDownloadData(null);
+    }
+    setText(project.text);
+    setHistory(createHistory(project.text, project.structuredScript ?? null, 'open'));
+
+    if (project.pdfBase64 && project.pdfBase64 !== pdfBase64) {
+        setPdfBase64(project.pdfBase64);
+        // Reconstruct a Blob URL for the PDF viewer
+        const byteCharacters = atob(project.pdfBase64);
+        const byteArray = new Uint8Array(byteCharacters.length);
+        for (let i = 0; i < byteCharacters.length; i++) {
+            byteArray[i] = byteCharacters.charCodeAt(i);
+        }
+        const blob = new Blob([byteArray], {type: 'application/pdf'});
+        setPdfUrl(URL.createObjectURL(blob));
+        if (project.pdfName) setPdfFile(new File([blob], project.pdfName, { type: 'application/pdf' }));
+    } else if (!project.pdfBase64) {
+        // A project without a deck must not show the one that was open before
+        setPdfBase64(null);
+        setPdfUrl(null);
+        setPdfFile(null);
+        setTotalSlides(0);
+    }
+
+    setScriptGenerated(true);
+    setActiveTab('script');
+    setIsScriptEditing(false); // Default to read mode
+  };
+
+  const handleImportScript = async (file: File) => {
+    try {
+        await autosaveRef.current();
+        applyProject(await importProjectFile(file, await getProject()));
+        setProjectId(null);
+        setError(null);
+    } catch (err) {
+        console.error(err);
         setError(t.errorImport);
     }
   };
 
+  // The element for the current episode, created on demand (e.g. after opening a project)
+  const getEpisodeAudio = (): HTMLAudioElement | null => {
+    if (!downloadData) return null;
+    if (audioElemRef.current?.src !== downloadData.url) {
+      audioElemRef.current?.pause();
+      const audio = new Audio(downloadData.url);
+      audio.onended = () => { setIsPlaying(false); setActiveSegmentIndex(-1); };
+      audioElemRef.current = audio;
+    }
+    return audioElemRef.current;
+  };
+
+  // Seeking keeps playing if the episode is playing, otherwise only moves the position
+  const handleSeek = (time: number) => {
+    const audio = getEpisodeAudio();
+    if (!audio) return;
+    audio.currentTime = time;
+    syncToTime(time);
+  };
+
+  const handleSeekToSlide = (slideIndex: number) => {
+    const first = segments.find(seg => seg.slideIndex === slideIndex);
+    if (downloadData && first) handleSeek(first.startTime);
+    else setActiveSlideIndex(slideIndex);
+  };
+
   const handlePlay = async () => {
     if (isPlaying) {
       if (audioElemRef.current) {
@@ -482,7 +832,7 @@ const App: React.FC = () => {
 
     if (scriptGenerated && currentStyle.id !== 'deep_dive') setActiveTab('slides');
 
-    if (audioElemRef.current && audioElemRef.current.paused && audioElemRef.current.currentTime > 0) {
+    if (audioElemRef.current && audioElemRef.current.src === downloadData?.url && audioElemRef.current.paused && audioElemRef.current.currentTime > 0) {
         await audioElemRef.current.play();
         setIsPlaying(true);
         return;
@@ -491,28 +841,69 @@ const App: React.FC = () => {
     if (isGenerating) return;
 
     if (downloadData && text.trim()) {
-      const audio = new Audio(downloadData.url);
-      audioElemRef.current = audio;
+      const audio = getEpisodeAudio()!;
       setIsPlaying(true);
-      audio.onended = () => { setIsPlaying(false); setActiveSegmentIndex(-1); };
       await audio.play();
       return;
     }
 
+    // Errors would silently drop lines or slides from the episode; warnings don't block
+    if (hasBlockingDiagnostics(diagnostics)) {
+      setActiveTab('script');
+      setIsDiagnosticsOpen(true);
+      setError(t.errorLintBlocked);
+      return;
+    }
+
+    await generateAndPlay(skippedSegmentKeys);
+  };
+
+  const handleApplyFix = (fix: QuickFix) => {
+    commitScript('quick-fix', applyQuickFix(text, fix), null);
+  };
+
+  const generateAndPlay = async (skipSegmentKeys: ReadonlySet<string>) => {
     setIsGenerating(true);
     setError(null);
+    setFailedSegment(null);
     const currentGenId = ++generationIdRef.current;
     
     try {
       // 1. Parse current text to segments (redundant but ensures fresh copy)
-      const currentSegments = parseScriptToSegments(text, hostName, expertName);
+      const currentSegments = buildSegments();
       if (currentSegments.length === 0) throw new Error("No valid script segments found. Ensure text uses 'Host:', 'Expert:', or your custom names as labels.");
 
+      // A style's own jingle opens the episode unless an intro file was attached
+      const tracks: Partial<Record<MusicCue, Blob>> = { ...musicTracks };
+      if (!tracks.intro && currentStyle.audioSrc) {
+        try {
+          const response = await fetch(currentStyle.audioSrc);
+          if (response.ok) tracks.intro = await response.blob();
+        } catch (err) {
+          // A missing jingle is no reason to stop; the episode just starts with speech
+          console.warn("Failed to load the style jingle:", err);
+        }
+      }
+
       // 2. Generate audio for each segment to get exact durations
-      const result = await generateSequencedSpeech(currentSegments, selectedVoice, secondVoice);
+      const result = await generateSequencedSpeech(currentSegments, cast, {
+        provider: ttsProvider,
+        checkpoint: speechCheckpointRef.current,
+        skipSegmentKeys,
+        pauses: pauseSettings,
+        mastering: masteringSettings,
+        music: { tracks, settings: musicSettings },
+        pronunciations: resolvedPronunciations,
+        language,
+        onProgress: (completed, total) => setGenerationProgress({ completed, total }),
+      });
       
       if (currentGenId !== generationIdRef.current) return;
 
+      // Every clip made it into the episode; the checkpoint is no longer needed
+      speechCheckpointRef.current.clear();
+      setGenerationProgress(null);
+
       // 3. Update segments state with exact timings from audio generation
       setSegments(result.segments);
 
@@ -530,34 +921,131 @@ const App: React.FC = () => {
 
     } catch (err: any) {
       console.error(err);
-      
-      const errorMessage = err instanceof Error ? err.message : String(err);
-      const errorStr = JSON.stringify(err);
-
-      // Explicitly check for quota/429 errors to guide user to Settings
-      if (
-        errorMessage.includes("429") || 
-        errorMessage.includes("quota") || 
-        errorMessage.includes("RESOURCE_EXHAUSTED") ||
-        errorStr.includes("429") ||
-        errorStr.includes("RESOURCE_EXHAUSTED")
-      ) {
-        setError(t.errorQuota);
-      } else {
-        setError(t.errorGen + errorMessage);
-      }
+      setGenerationProgress(null);
       setIsGenerating(false);
+
+      // Completed segments stay checkpointed; let the user retry or skip the failed one
+      if (err instanceof SegmentGenerationError) {
+        setFailedSegment(err);
+        return;
+      }
+      setError(describeGenerationError(err));
     }
   };
 
-  const handleDownload = () => {
+  // Quota/429 errors get a pointer to Settings, where the rate limits can be lowered
+  const isQuotaError = (err: unknown): boolean => {
+    const errorMessage = err instanceof Error ? err.message : String(err);
+    const errorStr = JSON.stringify(err) ?? '';
+    return (
+      errorMessage.includes("429") ||
+      errorMessage.includes("quota") ||
+      errorMessage.includes("RESOURCE_EXHAUSTED") ||
+      errorStr.includes("429") ||
+      errorStr.includes("RESOURCE_EXHAUSTED")
+    );
+  };
+
+  const describeGenerationError = (err: unknown): string => {
+    if (isQuotaError(err)) return t.errorQuota;
+    return t.errorGen + (err instanceof Error ? err.message : String(err));
+  };
+
+  const handleRetryFailedSegment = () => {
+    if (isGenerating) return;
+    generateAndPlay(skippedSegmentKeys);
+  };
+
+  const handleSkipFailedSegment = () => {
+    if (!failedSegment || isGenerating) return;
+    const nextSkipped = new Set<string>(skippedSegmentKeys).add(failedSegment.segmentKey);
+    setSkippedSegmentKeys(nextSkipped);
+    generateAndPlay(nextSkipped);
+  };
+
+  const handleDownload = async () => {
     if (!downloadData) return;
-    const a = document.createElement('a');
-    a.href = downloadData.url;
-    a.download = downloadData.filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
+    if (audioFormat === 'wav') {
+      const a = document.createElement('a');
+      a.href = downloadData.url;
+      a.download = downloadData.filename;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      return;
+    }
+
+    setIsEncodingAudio(true);
+    setError(null);
+    try {
+      const audio = await decodeEpisodeAudio(downloadData.url);
+      const blob = await encodeEpisodeAudio(audio, {
+        format: audioFormat,
+        bitrate: audioBitrate,
+        tags: {
+          title: pdfFile ? pdfFile.name.replace(/\.pdf$/i, '') : t.title,
+          artist: cast.map(m => m.name).join(' & '),
+          album: language === 'en' ? currentStyle.nameEn : currentStyle.name,
+          comment: pdfFile ? pdfFile.name : undefined,
+        },
+      });
+      downloadBlob(blob, downloadData.filename.replace(/\.wav$/, `.${AUDIO_FORMATS[audioFormat].extension}`));
+    } catch (err) {
+      console.error(err);
+      setError(t.errorEncode + (err instanceof Error ? err.message : String(err)));
+    } finally {
+      setIsEncodingAudio(false);
+    }
+  };
+
+  const handleAudioFormatChange = (format: AudioFormat) => {
+    setAudioFormat(format);
+    setAudioBitrate(AUDIO_FORMATS[format].defaultBitrate);
+  };
+
+  const handleExportSubtitles = (format: SubtitleFormat, includeSpeakerNames: boolean, includeChapters: boolean) => {
+    if (!downloadData || segments.length === 0) return;
+    const options = includeSpeakerNames ? { speakerNames: getSpeakerNames(cast) } : {};
+    const timestamp = Date.now();
+
+    const captions = format === 'srt' ? segmentsToSrt(segments, options) : segmentsToWebVtt(segments, options);
+    const mimeType = format === 'srt' ? 'application/x-subrip' : 'text/vtt';
+    downloadBlob(new Blob([captions], { type: mimeType }), `podcast-${timestamp}.${format}`);
+
+    if (includeChapters) {
+      const chapters = segmentsToChapterVtt(segments, t.chapterSlideLabel);
+      downloadBlob(new Blob([chapters], { type: 'text/vtt' }), `podcast-${timestamp}.chapters.vtt`);
+    }
+    setIsSubtitleExportOpen(false);
+  };
+
+  const handleExportVideo = async (format: VideoFormat, burnSubtitles: boolean) => {
+    if (!downloadData || slideImages.length === 0) return;
+    setIsExportingVideo(true);
+    setVideoExportProgress(0);
+    setError(null);
+
+    try {
+      const audio = await decodeEpisodeAudio(downloadData.url);
+      const blob = await exportNarratedVideo({
+        slideImages,
+        segments,
+        audio,
+        format,
+        burnSubtitles,
+        cast,
+        onProgress: setVideoExportProgress,
+      });
+
+      downloadBlob(blob, `podcast-${Date.now()}.${format}`);
+      setIsVideoExportOpen(false);
+    } catch (err) {
+      console.error(err);
+      setError(t.errorVideoExport + (err instanceof Error ? err.message : String(err)));
+      setIsVideoExportOpen(false);
+    } finally {
+      setIsExportingVideo(false);
+    }
   };
 
   return (
@@ -604,37 +1092,60 @@ const App: React.FC = () => {
             >
                 {language === 'ja' ? 'EN' : 'JP'}
             </button>
+            <button
+                onClick={() => setIsLibraryOpen(true)}
+                className="px-2 py-1 border-2 border-bauhaus-black text-[10px] font-bold uppercase hover:bg-bauhaus-black hover:text-white transition-colors"
+                title={lastSavedAt ? `${t.librarySaved} ${new Date(lastSavedAt).toLocaleTimeString(language === 'ja' ? 'ja-JP' : 'en-US')}` : undefined}
+            >
+                ▤ {t.library}{lastSavedAt && <span className="ml-1 text-bauhaus-blue" aria-label={t.librarySaved}>✓</span>}
+            </button>
+            <button
+                onClick={() => setIsGlossaryOpen(true)}
+                className="px-2 py-1 border-2 border-bauhaus-black text-[10px] font-bold uppercase hover:bg-bauhaus-black hover:text-white transition-colors"
+            >
+                あ {t.glossary}
+            </button>
           </div>
 
           {/* Stylish Custom Name Inputs */}
-          <div className="flex items-center gap-8 w-full md:w-auto mt-2 md:mt-0">
-             {/* Host Input */}
-             <div className="flex flex-col relative group">
-                <label className="text-[10px] font-black uppercase text-bauhaus-blue tracking-wider mb-1 flex items-center gap-1">
-                    <CircleIcon className="w-2 h-2" /> {t.hostNameLabel}
-                </label>
-                <input 
-                    type="text" 
-                    value={hostName} 
-                    onChange={(e) => setHostName(e.target.value)}
-                    className="bg-transparent border-b-4 border-bauhaus-blue text-lg font-bold w-[120px] focus:outline-none focus:border-black transition-colors uppercase placeholder-gray-300"
-                    placeholder="NAME"
-                />
-             </div>
-
-             {/* Expert Input */}
-             <div className="flex flex-col relative group">
-                <label className="text-[10px] font-black uppercase text-bauhaus-black tracking-wider mb-1 flex items-center gap-1">
-                    <TriangleIcon className="w-2 h-2 text-bauhaus-yellow" /> {t.expertNameLabel}
-                </label>
-                <input 
-                    type="text" 
-                    value={expertName} 
-                    onChange={(e) => setExpertName(e.target.value)}
-                    className="bg-transparent border-b-4 border-bauhaus-yellow text-lg font-bold w-[120px] focus:outline-none focus:border-black transition-colors uppercase placeholder-gray-300"
-                    placeholder="NAME"
-                />
-             </div>
+          <div className="flex items-end flex-wrap gap-x-8 gap-y-2 w-full md:w-auto mt-2 md:mt-0">
+             {cast.map((member, i) => {
+                const seat = SEAT_STYLES[i % SEAT_STYLES.length];
+                const label = i === 0 ? t.hostNameLabel : i === 1 ? t.expertNameLabel : t.guestNameLabel;
+                return (
+                  <div key={member.id} className="flex flex-col relative group">
+                     <label className={`text-[10px] font-black uppercase tracking-wider mb-1 flex items-center gap-1 ${seat.label}`}>
+                         <SeatIcon seat={i} className={seat.iconClass} /> {label}
+                         {i >= MIN_CAST_SIZE && (
+                             <button
+                                 onClick={() => { setCast(removeCastMember(cast, i)); followSeatChange(seatIdsAfterRemoval(cast, i)); }}
+                                 className="ml-1 text-bauhaus-black hover:text-bauhaus-red"
+                                 aria-label={`${t.removeSpeaker}: ${member.name}`}
+                                 title={t.removeSpeaker}
+                             >
+                                 ×
+                             </button>
+                         )}
+                     </label>
+                     <input 
+                         type="text" 
+                         value={member.name} 
+                         onChange={(e) => setCast(prev => prev.map((m, j) => j === i ? { ...m, name: e.target.value } : m))}
+                         className={`bg-transparent border-b-4 ${seat.underline} text-lg font-bold w-[120px] focus:outline-none focus:border-black transition-colors uppercase placeholder-gray-300`}
+                         placeholder="NAME"
+                     />
+                  </div>
+                );
+             })}
+             {cast.length < MAX_CAST_SIZE && (
+                <button
+                    onClick={() => setCast(prev => addCastMember(prev, language, voices.map(v => v.name)))}
+                    className="px-2 py-1 border-2 border-bauhaus-black text-[10px] font-bold uppercase hover:bg-bauhaus-black hover:text-white transition-colors"
+                    title={t.addSpeaker}
+                >
+                    + {t.addSpeaker}
+                </button>
+             )}
           </div>
         </div>
 
@@ -688,6 +1199,39 @@ const App: React.FC = () => {
                         
                         {activeTab === 'script' && (
                             <div className="flex items-center gap-2">
+                                {pdfBase64 && totalSlides > 0 && (
+                                    <>
+                                        <div className="flex items-center gap-1 text-[10px] md:text-xs font-bold">
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={totalSlides}
+                                                value={regenerateRange.from}
+                                                onChange={(e) => setRegenerateRange(r => ({ ...r, from: clampSlide(e.target.value, totalSlides) }))}
+                                                className="w-12 px-1 py-1 border-2 border-bauhaus-black text-center"
+                                                aria-label={t.regenerateFrom}
+                                            />
+                                            <span>–</span>
+                                            <input
+                                                type="number"
+                                                min={1}
+                                                max={totalSlides}
+                                                value={regenerateRange.to}
+                                                onChange={(e) => setRegenerateRange(r => ({ ...r, to: clampSlide(e.target.value, totalSlides) }))}
+                                                className="w-12 px-1 py-1 border-2 border-bauhaus-black text-center"
+                                                aria-label={t.regenerateTo}
+                                            />
+                                        </div>
+                                        <button
+                                            onClick={handleRegenerateSlides}
+                                            disabled={isRegenerating || isAnalyzing}
+                                            className="text-[10px] md:text-xs font-bold uppercase px-3 py-1.5 bg-white border-2 border-bauhaus-black hover:bg-gray-100 disabled:opacity-50"
+                                        >
+                                            {isRegenerating ? t.regenerating : `↻ ${t.regenerateSlides}`}
+                                        </button>
+                                        <div className="w-px h-4 bg-gray-300 mx-1"></div>
+                                    </>
+                                )}
                                 <ScriptImporter onImport={handleImportScript} label={t.import} />
                                 <button 
                                     onClick={handleExportScript} 
@@ -702,6 +1246,40 @@ const App: React.FC = () => {
                                 >
                                     {isScriptEditing ? t.done : `✎ ${t.edit}`}
                                 </button>
+                                <button
+                                    onClick={() => setIsSpokenPreview(!isSpokenPreview)}
+                                    disabled={isScriptEditing}
+                                    className={`text-[10px] md:text-xs font-bold uppercase px-3 py-1.5 border-2 border-bauhaus-black disabled:opacity-30 ${isSpokenPreview ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                                    title={t.spokenPreviewHint}
+                                    aria-pressed={isSpokenPreview}
+                                >
+                                    🔊 {t.spokenPreview}
+                                </button>
+                                <div className="w-px h-4 bg-gray-300 mx-1"></div>
+                                <button
+                                    onClick={handleUndo}
+                                    disabled={!canUndo(history)}
+                                    className="text-xs font-bold px-2 py-1.5 bg-white border-2 border-bauhaus-black hover:bg-gray-100 disabled:opacity-30"
+                                    title={`${t.undo} (Ctrl+Z)`}
+                                    aria-label={t.undo}
+                                >
+                                    ↶
+                                </button>
+                                <button
+                                    onClick={handleRedo}
+                                    disabled={!canRedo(history)}
+                                    className="text-xs font-bold px-2 py-1.5 bg-white border-2 border-bauhaus-black hover:bg-gray-100 disabled:opacity-30"
+                                    title={`${t.redo} (Ctrl+Shift+Z)`}
+                                    aria-label={t.redo}
+                                >
+                                    ↷
+                                </button>
+                                <button
+                                    onClick={() => setIsHistoryOpen(!isHistoryOpen)}
+                                    className={`text-[10px] md:text-xs font-bold uppercase px-3 py-1.5 border-2 border-bauhaus-black ${isHistoryOpen ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-gray-100'}`}
+                                >
+                                    {t.historyTitle}
+                                </button>
                             </div>
                         )}
                     </div>
@@ -711,36 +1289,42 @@ const App: React.FC = () => {
                         
                         {/* Script Editor / Reader */}
                         <div className={`absolute inset-0 z-10 bg-white ${activeTab === 'script' ? 'flex flex-col' : 'hidden'}`}>
+                            {isHistoryOpen && (
+                                <ScriptHistoryPanel
+                                    history={history}
+                                    onJump={(index) => restoreHistory(jumpToHistory(history, index))}
+                                    onClose={() => setIsHistoryOpen(false)}
+                                    language={language}
+                                />
+                            )}
                             {isScriptEditing ? (
                                 <textarea 
-                                    className="w-full h-full p-6 text-lg font-mono bg-transparent outline-none resize-none custom-scrollbar"
+                                    className="w-full flex-1 min-h-0 p-6 text-lg font-mono bg-transparent outline-none resize-none custom-scrollbar"
                                     value={text}
-                                    onChange={(e) => { setText(e.target.value); setDownloadData(null); }}
+                                    onChange={(e) => commitScript('edit', e.target.value, structuredScript?.text === e.target.value ? structuredScript.script : null)}
+                                    data-script-editor
                                 />
                             ) : (
-                                <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar bg-gray-50 flex flex-col gap-6">
-                                    {segments.map((seg, idx) => (
-                                        <div key={idx} className={`flex w-full ${seg.speaker === 'Host' ? 'justify-start' : 'justify-end'}`}>
-                                            <div className="flex flex-col max-w-[85%] md:max-w-[70%]">
-                                                <span className={`text-[10px] font-bold uppercase mb-1 ${seg.speaker === 'Host' ? 'text-bauhaus-blue text-left' : 'text-bauhaus-black text-right'}`}>
-                                                    {seg.speaker === 'Host' ? hostName : expertName}
-                                                </span>
-                                                <div className={`
-                                                    p-4 md:p-5 rounded-2xl text-sm md:text-base font-medium leading-relaxed shadow-sm
-                                                    ${seg.speaker === 'Host' 
-                                                        ? 'bg-white border-2 border-bauhaus-blue rounded-tl-none text-gray-800' 
-                                                        : 'bg-bauhaus-yellow/20 border-2 border-bauhaus-black rounded-tr-none text-gray-900'}
-                                                `}>
-                                                    {seg.text}
-                                                </div>
-                                            </div>
-                                        </div>
-                                    ))}
-                                    {segments.length === 0 && (
-                                        <div className="text-center text-gray-400 mt-10">{t.noScript}</div>
-                                    )}
-                                </div>
+                                <TranscriptEditor
+                                    turns={editorTurns}
+                                    cast={cast}
+                                    slideCount={totalSlides}
+                                    onChange={handleTurnsChange}
+                                    seatStyle={(speaker) => getSeatStyle(cast, speaker)}
+                                    turnStartTimes={turnStartTimes}
+                                    activeTurn={segments[activeSegmentIndex]?.turn}
+                                    onSeek={handleSeek}
+                                    spokenText={isSpokenPreview ? (turnText) => toSpokenText(turnText, resolvedPronunciations, language) : undefined}
+                                    language={language}
+                                />
                             )}
+                            <ScriptDiagnosticsPanel
+                                diagnostics={diagnostics}
+                                isOpen={isDiagnosticsOpen}
+                                onToggle={() => setIsDiagnosticsOpen(!isDiagnosticsOpen)}
+                                onApplyFix={handleApplyFix}
+                                language={language}
+                            />
                         </div>
 
                         {/* Presentation Mode */}
@@ -751,14 +1335,66 @@ const App: React.FC = () => {
                                     url={pdfUrl} 
                                     activeSlideIndex={activeSlideIndex}
                                     onImagesLoaded={setTotalSlides}
+                                    onSlidesRendered={setSlideImages}
                                 />
                             </div>
+                            {/* Slide strip: jumps to where each slide is discussed */}
+                            {slideImages.length > 1 && (
+                                <div className="flex-shrink-0 flex gap-2 p-2 overflow-x-auto custom-scrollbar bg-black border-t-2 border-gray-800">
+                                    {slideImages.map((image, i) => (
+                                        <button
+                                            key={i}
+                                            onClick={() => handleSeekToSlide(i)}
+                                            className={`flex-shrink-0 h-14 border-2 ${i === activeSlideIndex ? 'border-bauhaus-yellow' : 'border-transparent opacity-60 hover:opacity-100'}`}
+                                            title={`${t.transcriptSlide} ${i + 1}`}
+                                        >
+                                            <img src={image} alt={`${t.transcriptSlide} ${i + 1}`} className="h-full w-auto bg-white" />
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
                         </div>
                     </div>
                 </div>
             )}
           </div>
 
+          {/* Failed Segment Display */}
+          {failedSegment && (
+            <div className="mt-4 p-4 bg-bauhaus-red text-white font-bold border-4 border-bauhaus-black flex flex-col md:flex-row justify-between md:items-center gap-3">
+                <div className="min-w-0">
+                    <div className="text-xs uppercase tracking-wider">
+                        {t.segmentFailed} {failedSegment.segmentNumber} / {failedSegment.totalSegments}
+                        {' '}({t.chapterSlideLabel} {failedSegment.segment.slideIndex + 1}, {getSpeakerName(cast, failedSegment.segment.speaker)})
+                    </div>
+                    <div className="truncate text-sm opacity-90">"{failedSegment.segment.text}"</div>
+                    <div className="text-sm">{describeGenerationError(failedSegment.originalError)}</div>
+                </div>
+                <div className="flex gap-2 flex-shrink-0">
+                   <button 
+                     onClick={handleRetryFailedSegment}
+                     className="bg-white text-bauhaus-red px-3 py-1 uppercase text-xs font-black border-2 border-black hover:bg-black hover:text-white"
+                   >
+                     {t.retrySegment}
+                   </button>
+                   <button 
+                     onClick={handleSkipFailedSegment}
+                     className="bg-white text-bauhaus-red px-3 py-1 uppercase text-xs font-black border-2 border-black hover:bg-black hover:text-white"
+                   >
+                     {t.skipSegment}
+                   </button>
+                   {isQuotaError(failedSegment.originalError) && (
+                     <button 
+                       onClick={() => setIsConfigOpen(true)}
+                       className="bg-white text-bauhaus-red px-3 py-1 uppercase text-xs font-black border-2 border-black hover:bg-black hover:text-white"
+                     >
+                       {t.settings}
+                     </button>
+                   )}
+                </div>
+            </div>
+          )}
+
           {/* Error Display */}
           {error && (
             <div className="mt-4 p-4 bg-bauhaus-red text-white font-bold border-4 border-bauhaus-black flex justify-between items-center">
@@ -799,41 +1435,78 @@ const App: React.FC = () => {
 
               {/* Sub-controls */}
               <div className="flex flex-col gap-2 flex-1">
-                 <BauhausButton 
-                    onClick={handleDownload} 
-                    disabled={!downloadData} 
-                    className="py-2 px-4 text-xs font-bold w-full flex justify-center"
-                    icon={<DownloadIcon className="w-3" />}
-                  >
-                    {t.save}
-                 </BauhausButton>
+                 <div className="flex gap-2">
+                   <BauhausButton 
+                      onClick={handleDownload} 
+                      disabled={!downloadData || isEncodingAudio} 
+                      className="py-2 px-4 text-xs font-bold flex-1 flex justify-center"
+                      icon={<DownloadIcon className="w-3" />}
+                    >
+                      {isEncodingAudio ? t.encoding : `${t.save} ${AUDIO_FORMATS[audioFormat].extension.toUpperCase()}`}
+                   </BauhausButton>
+                   <BauhausButton 
+                      onClick={() => setIsVideoExportOpen(true)} 
+                      disabled={!downloadData || slideImages.length === 0} 
+                      variant="secondary"
+                      className="py-2 px-3 text-xs font-bold flex justify-center"
+                      title={t.videoExportTitle}
+                    >
+                      🎬 {t.exportVideo}
+                   </BauhausButton>
+                   <BauhausButton 
+                      onClick={() => setIsSubtitleExportOpen(true)} 
+                      disabled={!downloadData || segments.length === 0} 
+                      variant="secondary"
+                      className="py-2 px-3 text-xs font-bold flex justify-center"
+                      title={t.subtitleExportTitle}
+                    >
+                      {t.exportSubtitles}
+                   </BauhausButton>
+                 </div>
                  <button 
                     onClick={() => setIsConfigOpen(true)} 
                     className="text-xs font-bold border-2 border-bauhaus-black bg-white text-bauhaus-black px-2 py-2 hover:bg-gray-200 w-full truncate text-center"
                  >
-                    {selectedVoice} & {secondVoice}
+                    {cast.map(m => m.voice).join(' & ')}
                  </button>
               </div>
           </div>
 
           {/* Right: Subtitles (Takes up rest of space) */}
           <div className="flex-1 p-4 md:p-6 bg-white flex items-center justify-center relative overflow-hidden border-t-4 md:border-t-0 border-bauhaus-black md:border-none">
-              {scriptGenerated && activeTab === 'slides' ? (
+              {isGenerating && generationProgress ? (
+                  <div className="text-gray-400 font-bold uppercase text-lg md:text-2xl tracking-widest select-none">
+                      {t.generatingSegments} {generationProgress.completed} / {generationProgress.total}
+                  </div>
+              ) : scriptGenerated && activeTab === 'slides' ? (
                   activeSegmentIndex >= 0 && segments[activeSegmentIndex] ? (
+                    <>
+                    {/* An interjection heard over the current line */}
+                    {overlappingSegment && (
+                      <div className={`
+                        absolute top-2 max-w-[60%] px-3 py-1 rounded-lg border-2 border-bauhaus-black text-xs md:text-sm font-bold truncate animate-in fade-in
+                        ${getSeatStyle(cast, overlappingSegment.speaker).live}
+                        ${getSeat(cast, overlappingSegment.speaker) === 0 ? 'left-4' : 'right-4'}
+                      `}>
+                        {getSpeakerName(cast, overlappingSegment.speaker)}: {overlappingSegment.text}
+                      </div>
+                    )}
                     <div className={`
                       w-full max-w-3xl p-3 md:p-4 rounded-xl border-2 shadow-sm border-bauhaus-black transition-all duration-300 animate-in fade-in slide-in-from-bottom-2
-                      ${segments[activeSegmentIndex].speaker === 'Host' 
-                          ? 'bg-bauhaus-blue text-white rounded-bl-none ml-0 mr-auto' 
-                          : 'bg-bauhaus-yellow text-bauhaus-black rounded-br-none ml-auto mr-0'}
+                      ${getSeatStyle(cast, segments[activeSegmentIndex].speaker).live}
+                      ${getSeat(cast, segments[activeSegmentIndex].speaker) === 0 
+                          ? 'rounded-bl-none ml-0 mr-auto' 
+                          : 'rounded-br-none ml-auto mr-0'}
                     `}>
                       <div className="flex items-center gap-2 mb-1 text-[10px] font-bold uppercase opacity-80">
-                          {segments[activeSegmentIndex].speaker === 'Host' ? <CircleIcon className="w-2 h-2" /> : <TriangleIcon className="w-2 h-2" />}
-                          {segments[activeSegmentIndex].speaker === 'Host' ? hostName : expertName}
+                          <SeatIcon seat={getSeat(cast, segments[activeSegmentIndex].speaker)} />
+                          {getSpeakerName(cast, segments[activeSegmentIndex].speaker)}
                       </div>
                       <p className="text-sm md:text-lg font-bold leading-snug md:leading-relaxed">
                         {segments[activeSegmentIndex].text}
                       </p>
                     </div>
+                    </>
                   ) : (
                     <div className="text-gray-300 font-bold uppercase text-xl md:text-3xl tracking-widest select-none">
                         {t.readyToPlay}
@@ -847,6 +1520,21 @@ const App: React.FC = () => {
           </div>
         </div>
 
+        {/* Timeline */}
+        {downloadData && segments.length > 0 && (
+          <div className="flex-shrink-0 border-t-4 border-bauhaus-black">
+            <WaveformTimeline
+              audioUrl={downloadData.url}
+              duration={duration || segments[segments.length - 1].endTime}
+              currentTime={currentTime}
+              segments={segments}
+              cast={cast}
+              onSeek={handleSeek}
+              language={language}
+            />
+          </div>
+        )}
+
         <Footer className="md:hidden" />
       </div>
 
@@ -854,8 +1542,29 @@ const App: React.FC = () => {
       <ConfigurationModal 
         isOpen={isConfigOpen} 
         onClose={() => setIsConfigOpen(false)} 
-        selectedVoice={selectedVoice} 
-        onVoiceChange={setSelectedVoice}
+        cast={cast}
+        onCastChange={setCast}
+        voices={voices}
+        ttsSettings={ttsSettings}
+        onTtsSettingsChange={setTtsSettings}
+        pauseSettings={pauseSettings}
+        onPauseSettingsChange={setPauseSettings}
+        masteringSettings={masteringSettings}
+        onMasteringSettingsChange={setMasteringSettings}
+        musicTracks={musicTracks}
+        onMusicTracksChange={setMusicTracks}
+        musicSettings={musicSettings}
+        onMusicSettingsChange={setMusicSettings}
+        styleJingle={currentStyle.audioSrc}
+        isOfflineEngine={ttsProvider.capabilities.offline}
+        llmSettings={llmSettings}
+        onLlmSettingsChange={setLlmSettings}
+        audioFormat={audioFormat}
+        onAudioFormatChange={handleAudioFormatChange}
+        audioBitrate={audioBitrate}
+        onAudioBitrateChange={setAudioBitrate}
+        rateLimits={rateLimits}
+        onRateLimitsChange={setRateLimits}
         language={language}
       />
       <SystemPromptModal 
@@ -863,7 +1572,40 @@ const App: React.FC = () => {
         onClose={() => setIsPromptOpen(false)} 
         prompt={customStylePrompt} 
         isEditable={currentStyle.id === 'custom'} 
-        onSave={(p, v, v2) => { setCustomStylePrompt(p); if(v) setSelectedVoice(v); if(v2) setSecondVoice(v2); }}
+        onSave={(p, newCast) => { setCustomStylePrompt(p); if (newCast) setCast(newCast); }}
+        cast={cast}
+        voices={voices}
+        language={language}
+      />
+      <VideoExportModal
+        isOpen={isVideoExportOpen}
+        onClose={() => { if (!isExportingVideo) setIsVideoExportOpen(false); }}
+        onExport={handleExportVideo}
+        isExporting={isExportingVideo}
+        progress={videoExportProgress}
+        language={language}
+      />
+      <SubtitleExportModal
+        isOpen={isSubtitleExportOpen}
+        onClose={() => setIsSubtitleExportOpen(false)}
+        onExport={handleExportSubtitles}
+        language={language}
+      />
+      <ProjectLibraryModal
+        isOpen={isLibraryOpen}
+        onClose={() => setIsLibraryOpen(false)}
+        onOpen={handleOpenProject}
+        onDeleted={(id) => { if (id === projectId) setProjectId(null); }}
+        currentProjectId={projectId}
+        language={language}
+      />
+      <PronunciationModal
+        isOpen={isGlossaryOpen}
+        onClose={() => setIsGlossaryOpen(false)}
+        projectEntries={projectPronunciations}
+        onProjectEntriesChange={setProjectPronunciations}
+        globalEntries={globalPronunciations}
+        onGlobalEntriesChange={handleGlobalPronunciationsChange}
         language={language}
       />
 
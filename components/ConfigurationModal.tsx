@@ -3,35 +3,105 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import React, { useState, useMemo, useEffect } from 'react';
-import { ALL_VOICES } from '../voices';
+import { VoiceData } from '../voices';
 import { BauhausButton } from './BauhausComponents';
 import { TRANSLATIONS } from '../constants';
+import { AUDIO_FORMATS, AudioFormat } from '../services/audioEncoder';
+import { RATE_LIMIT_PRESETS, RateLimits } from '../services/rateLimiter';
+import { countCachedAudio, clearAudioCache } from '../services/audioCache';
+import { CastMember, LlmProviderId, LlmSettings, MasteringSettings, MusicCue, MusicSettings, PauseSettings, TtsProviderId, TtsSettings } from '../types';
+import { DEFAULT_LLM_MODELS } from '../services/llmProviders';
+import { DEFAULT_PAUSE_SETTINGS, MAX_CROSSFADE_SEC, MAX_PAUSE_SEC } from '../services/pauses';
+import { LOUDNESS_TARGETS } from '../services/mastering';
+import { canDecodeTrack, DEFAULT_MUSIC_SETTINGS, MUSIC_CUES } from '../services/musicMixer';
+import { MAX_PITCH_SEMITONES, MAX_SPEAKING_RATE, MIN_SPEAKING_RATE } from '../services/voiceShaping';
 
 interface ConfigurationModalProps {
   isOpen: boolean;
   onClose: () => void;
-  selectedVoice: string;
-  onVoiceChange: (voiceName: string) => void;
+  cast: CastMember[];
+  onCastChange: (cast: CastMember[]) => void;
+  voices: VoiceData[];
+  ttsSettings: TtsSettings;
+  onTtsSettingsChange: (settings: TtsSettings) => void;
+  pauseSettings: PauseSettings;
+  onPauseSettingsChange: (settings: PauseSettings) => void;
+  masteringSettings: MasteringSettings;
+  onMasteringSettingsChange: (settings: MasteringSettings) => void;
+  musicTracks: Partial<Record<MusicCue, File>>;
+  onMusicTracksChange: (tracks: Partial<Record<MusicCue, File>>) => void;
+  musicSettings: MusicSettings;
+  onMusicSettingsChange: (settings: MusicSettings) => void;
+  styleJingle?: string; // The selected style's default intro
+  isOfflineEngine: boolean;
+  llmSettings: LlmSettings;
+  onLlmSettingsChange: (settings: LlmSettings) => void;
+  audioFormat: AudioFormat;
+  onAudioFormatChange: (format: AudioFormat) => void;
+  audioBitrate: number;
+  onAudioBitrateChange: (bitrate: number) => void;
+  rateLimits: RateLimits;
+  onRateLimitsChange: (limits: RateLimits) => void;
   language: 'ja' | 'en';
 }
 
 export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({
   isOpen,
   onClose,
-  selectedVoice,
-  onVoiceChange,
+  cast,
+  onCastChange,
+  voices,
+  ttsSettings,
+  onTtsSettingsChange,
+  pauseSettings,
+  onPauseSettingsChange,
+  masteringSettings,
+  onMasteringSettingsChange,
+  musicTracks,
+  onMusicTracksChange,
+  musicSettings,
+  onMusicSettingsChange,
+  styleJingle,
+  isOfflineEngine,
+  llmSettings,
+  onLlmSettingsChange,
+  audioFormat,
+  onAudioFormatChange,
+  audioBitrate,
+  onAudioBitrateChange,
+  rateLimits,
+  onRateLimitsChange,
   language
 }) => {
   const [filterGender, setFilterGender] = useState('ALL');
+  const [activeSeat, setActiveSeat] = useState(0);
+  const [cachedClipCount, setCachedClipCount] = useState<number | null>(null);
+  const [rejectedTrack, setRejectedTrack] = useState<MusicCue | null>(null);
   const t = TRANSLATIONS[language];
 
   // Filter voices
   const filteredVoices = useMemo(() => {
-    return ALL_VOICES.filter(voice => {
+    return voices.filter(voice => {
       const matchGender = filterGender === 'ALL' || voice.ssmlGender === filterGender;
       return matchGender;
     });
-  }, [filterGender]);
+  }, [voices, filterGender]);
+
+  // The seat being edited may disappear when the cast shrinks
+  const seat = Math.min(activeSeat, cast.length - 1);
+  const selectedVoice = cast[seat]?.voice;
+  const onVoiceChange = (voiceName: string) => {
+    onCastChange(cast.map((m, i) => i === seat ? { ...m, voice: voiceName } : m));
+  };
+  const onShapingChange = (patch: Partial<Pick<CastMember, 'rate' | 'pitch'>>) => {
+    onCastChange(cast.map((m, i) => i === seat ? { ...m, ...patch } : m));
+  };
+
+  // Refresh cache stats each time the modal opens
+  useEffect(() => {
+    if (!isOpen) return;
+    countCachedAudio().then(setCachedClipCount);
+  }, [isOpen]);
 
   // Focus Management (Only runs when isOpen changes)
   useEffect(() => {
@@ -110,6 +180,66 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({
     }
   };
 
+  const handleClearCache = async () => {
+    try {
+      await clearAudioCache();
+      setCachedClipCount(0);
+    } catch (e) {
+      console.error("Failed to clear audio cache:", e);
+    }
+  };
+
+  const ttsProviderOptions: { id: TtsProviderId; label: string }[] = [
+    { id: 'gemini', label: t.ttsProviderGemini },
+    { id: 'http', label: t.ttsProviderHttp },
+    { id: 'mock', label: t.ttsProviderMock },
+  ];
+
+  const llmProviderOptions: { id: LlmProviderId; label: string }[] = [
+    { id: 'gemini', label: t.llmProviderGemini },
+    { id: 'openai', label: t.llmProviderOpenAi },
+    { id: 'fixture', label: t.llmProviderFixture },
+  ];
+
+  const pauseFields: { key: keyof PauseSettings; label: string; max: number; step: number }[] = [
+    { key: 'sameSpeaker', label: t.pauseSameSpeaker, max: MAX_PAUSE_SEC, step: 0.1 },
+    { key: 'speakerChange', label: t.pauseSpeakerChange, max: MAX_PAUSE_SEC, step: 0.1 },
+    { key: 'slideChange', label: t.pauseSlideChange, max: MAX_PAUSE_SEC, step: 0.1 },
+    { key: 'crossfade', label: t.pauseCrossfade, max: MAX_CROSSFADE_SEC, step: 0.01 },
+  ];
+
+  const musicCueLabels: Record<MusicCue, string> = {
+    intro: t.musicIntro,
+    outro: t.musicOutro,
+    bed: t.musicBed,
+    sting: t.musicSting,
+  };
+
+  const musicLevelFields: { key: keyof MusicSettings; label: string; min: number; max: number }[] = [
+    { key: 'jingleLevel', label: t.musicJingleLevel, min: -30, max: 6 },
+    { key: 'bedLevel', label: t.musicBedLevel, min: -40, max: 0 },
+    { key: 'duckingDepth', label: t.musicDucking, min: 0, max: 30 },
+  ];
+
+  const setMusicTrack = async (cue: MusicCue, file: File | undefined) => {
+    // A file that won't decode would only fail the mix, after every line has been synthesized
+    if (file && !(await canDecodeTrack(file))) {
+      setRejectedTrack(cue);
+      return;
+    }
+    setRejectedTrack(null);
+    const next = { ...musicTracks };
+    if (file) next[cue] = file;
+    else delete next[cue];
+    onMusicTracksChange(next);
+  };
+
+  const rateLimitFields: { key: keyof RateLimits; label: string; min: number }[] = [
+    { key: 'concurrency', label: t.rateConcurrency, min: 1 },
+    { key: 'requestsPerMinute', label: t.rateRpm, min: 1 },
+    { key: 'tokensPerMinute', label: t.rateTpm, min: 100 },
+  ];
+
   if (!isOpen) return null;
 
   return (
@@ -170,11 +300,459 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({
             </div>
           </div>
 
+          {/* Script Model Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <h3 className="text-lg font-bold uppercase mb-1">{t.llmProviderTitle}</h3>
+            <p className="text-xs font-bold text-gray-500 mb-4">{t.llmProviderDesc}</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label htmlFor="llm-provider" className="block text-xs font-bold uppercase mb-2">{t.ttsProviderLabel}</label>
+                <select
+                  id="llm-provider"
+                  className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  value={llmSettings.provider}
+                  onChange={(e) => {
+                    const provider = e.target.value as LlmProviderId;
+                    onLlmSettingsChange({ ...llmSettings, provider, model: DEFAULT_LLM_MODELS[provider] });
+                  }}
+                >
+                  {llmProviderOptions.map(({ id, label }) => (
+                    <option key={id} value={id}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {llmSettings.provider !== 'fixture' && (
+                <div>
+                  <label htmlFor="llm-model" className="block text-xs font-bold uppercase mb-2">{t.llmModel}</label>
+                  <input
+                    id="llm-model"
+                    key={llmSettings.provider}
+                    type="text"
+                    defaultValue={llmSettings.model}
+                    onBlur={(e) => onLlmSettingsChange({ ...llmSettings, model: e.target.value.trim() || DEFAULT_LLM_MODELS[llmSettings.provider] })}
+                    className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  />
+                </div>
+              )}
+              {llmSettings.provider === 'openai' && (
+                <>
+                  <div>
+                    <label htmlFor="llm-endpoint" className="block text-xs font-bold uppercase mb-2">{t.ttsEndpoint}</label>
+                    <input
+                      id="llm-endpoint"
+                      type="url"
+                      defaultValue={llmSettings.endpoint}
+                      onBlur={(e) => onLlmSettingsChange({ ...llmSettings, endpoint: e.target.value })}
+                      className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                    />
+                  </div>
+                  <div>
+                    <label htmlFor="llm-api-key" className="block text-xs font-bold uppercase mb-2">{t.llmApiKey}</label>
+                    <input
+                      id="llm-api-key"
+                      type="password"
+                      autoComplete="off"
+                      defaultValue={llmSettings.apiKey}
+                      onBlur={(e) => onLlmSettingsChange({ ...llmSettings, apiKey: e.target.value.trim() })}
+                      className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                    />
+                  </div>
+                </>
+              )}
+              {llmSettings.provider === 'fixture' && (
+                <div>
+                  <label htmlFor="llm-fixture" className="block text-xs font-bold uppercase mb-2">{t.llmFixtureUrl}</label>
+                  <input
+                    id="llm-fixture"
+                    type="text"
+                    placeholder="/fixtures/llm.json"
+                    defaultValue={llmSettings.fixtureUrl}
+                    onBlur={(e) => onLlmSettingsChange({ ...llmSettings, fixtureUrl: e.target.value.trim() })}
+                    className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  />
+                </div>
+              )}
+            </div>
+            <label className="flex items-center gap-3 mt-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={llmSettings.structuredOutput}
+                onChange={(e) => onLlmSettingsChange({ ...llmSettings, structuredOutput: e.target.checked })}
+                className="w-5 h-5 accent-bauhaus-black"
+              />
+              <span className="text-xs font-bold uppercase">{t.llmStructuredOutput}</span>
+            </label>
+            <p className="text-[10px] font-bold text-gray-500 mt-1">{t.llmStructuredOutputHint}</p>
+            {llmSettings.provider === 'openai' && (
+              <p className="text-[10px] font-bold text-gray-500 mt-2">{t.llmOpenAiHint}</p>
+            )}
+            {llmSettings.provider === 'fixture' && (
+              <p className="text-[10px] font-bold text-gray-500 mt-2">{t.llmFixtureHint}</p>
+            )}
+          </div>
+
+          {/* Speech Engine Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <h3 className="text-lg font-bold uppercase mb-1 flex items-center gap-2">
+              {t.ttsProviderTitle}
+              {isOfflineEngine && (
+                <span className="text-[10px] uppercase font-bold px-1.5 py-0.5 border-2 border-bauhaus-black bg-bauhaus-yellow">
+                  {t.ttsOffline}
+                </span>
+              )}
+            </h3>
+            <p className="text-xs font-bold text-gray-500 mb-4">{t.ttsProviderDesc}</p>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1">
+                <label htmlFor="tts-provider" className="block text-xs font-bold uppercase mb-2">{t.ttsProviderLabel}</label>
+                <select
+                  id="tts-provider"
+                  className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  value={ttsSettings.provider}
+                  onChange={(e) => onTtsSettingsChange({ ...ttsSettings, provider: e.target.value as TtsProviderId })}
+                >
+                  {ttsProviderOptions.map(({ id, label }) => (
+                    <option key={id} value={id}>{label}</option>
+                  ))}
+                </select>
+              </div>
+              {ttsSettings.provider === 'http' && (
+                <div className="flex-1">
+                  <label htmlFor="tts-endpoint" className="block text-xs font-bold uppercase mb-2">{t.ttsEndpoint}</label>
+                  <input
+                    id="tts-endpoint"
+                    type="url"
+                    defaultValue={ttsSettings.httpEndpoint}
+                    onBlur={(e) => onTtsSettingsChange({ ...ttsSettings, httpEndpoint: e.target.value })}
+                    className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  />
+                </div>
+              )}
+            </div>
+            {ttsSettings.provider === 'http' && (
+              <p className="text-[10px] font-bold text-gray-500 mt-2">{t.ttsEndpointHint}</p>
+            )}
+          </div>
+
+          {/* Pause Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-bold uppercase mb-1">{t.pauseTitle}</h3>
+                <p className="text-xs font-bold text-gray-500 max-w-md">{t.pauseDesc}</p>
+              </div>
+              <button
+                onClick={() => onPauseSettingsChange(DEFAULT_PAUSE_SETTINGS)}
+                className="text-xs font-bold uppercase px-3 py-2 border-2 border-bauhaus-black bg-white hover:bg-bauhaus-yellow whitespace-nowrap"
+              >
+                {t.pauseReset}
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              {pauseFields.map(({ key, label, max, step }) => (
+                <div key={key}>
+                  <label htmlFor={`pause-${key}`} className="block text-xs font-bold uppercase mb-2">{label}</label>
+                  <input
+                    id={`pause-${key}`}
+                    type="number"
+                    min={0}
+                    max={max}
+                    step={step}
+                    value={pauseSettings[key]}
+                    onChange={(e) => {
+                      const value = Math.min(max, Math.max(0, Number(e.target.value) || 0));
+                      onPauseSettingsChange({ ...pauseSettings, [key]: value });
+                    }}
+                    className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  />
+                </div>
+              ))}
+            </div>
+            <p className="text-[10px] font-bold text-gray-500 mt-2">{t.pauseMarkerHint}</p>
+            <p className="text-[10px] font-bold text-gray-500 mt-1">{t.pauseOverlapHint}</p>
+          </div>
+
+          {/* Mastering Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <h3 className="text-lg font-bold uppercase mb-1">{t.masteringTitle}</h3>
+            <p className="text-xs font-bold text-gray-500 mb-4">{t.masteringDesc}</p>
+            <label className="flex items-center gap-3 mb-2 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={masteringSettings.trimSilence}
+                onChange={(e) => onMasteringSettingsChange({ ...masteringSettings, trimSilence: e.target.checked })}
+                className="w-5 h-5 accent-bauhaus-black"
+              />
+              <span className="text-xs font-bold uppercase">{t.masteringTrim}</span>
+            </label>
+            <label className="flex items-center gap-3 mb-4 cursor-pointer">
+              <input
+                type="checkbox"
+                checked={masteringSettings.normalizeLoudness}
+                onChange={(e) => onMasteringSettingsChange({ ...masteringSettings, normalizeLoudness: e.target.checked })}
+                className="w-5 h-5 accent-bauhaus-black"
+              />
+              <span className="text-xs font-bold uppercase">{t.masteringNormalize}</span>
+            </label>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1">
+                <label htmlFor="mastering-target" className="block text-xs font-bold uppercase mb-2">{t.masteringTarget}</label>
+                <select
+                  id="mastering-target"
+                  className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow disabled:opacity-50"
+                  value={masteringSettings.targetLufs}
+                  onChange={(e) => onMasteringSettingsChange({ ...masteringSettings, targetLufs: Number(e.target.value) })}
+                  disabled={!masteringSettings.normalizeLoudness}
+                >
+                  {LOUDNESS_TARGETS.map((lufs) => (
+                    <option key={lufs} value={lufs}>{lufs} LUFS</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label htmlFor="mastering-ceiling" className="block text-xs font-bold uppercase mb-2">{t.masteringCeiling}</label>
+                <input
+                  id="mastering-ceiling"
+                  type="number"
+                  min={-6}
+                  max={0}
+                  step={0.5}
+                  value={masteringSettings.truePeakCeiling}
+                  onChange={(e) => {
+                    const value = Math.min(0, Math.max(-6, Number(e.target.value) || 0));
+                    onMasteringSettingsChange({ ...masteringSettings, truePeakCeiling: value });
+                  }}
+                  disabled={!masteringSettings.normalizeLoudness}
+                  className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow disabled:opacity-50"
+                />
+              </div>
+            </div>
+          </div>
+
+          {/* Music Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-bold uppercase mb-1">{t.musicTitle}</h3>
+                <p className="text-xs font-bold text-gray-500 max-w-md">{t.musicDesc}</p>
+              </div>
+              <button
+                onClick={() => onMusicSettingsChange(DEFAULT_MUSIC_SETTINGS)}
+                className="text-xs font-bold uppercase px-3 py-2 border-2 border-bauhaus-black bg-white hover:bg-bauhaus-yellow whitespace-nowrap"
+              >
+                {t.pauseReset}
+              </button>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
+              {MUSIC_CUES.map((cue) => (
+                <div key={cue}>
+                  <span className="block text-xs font-bold uppercase mb-2">{musicCueLabels[cue]}</span>
+                  <div className="flex items-center gap-2">
+                    <label className="flex-1 min-w-0 cursor-pointer p-3 border-4 border-bauhaus-black bg-white font-bold text-sm truncate hover:bg-bauhaus-yellow focus-within:ring-4 focus-within:ring-bauhaus-yellow">
+                      <input
+                        type="file"
+                        accept="audio/*"
+                        onChange={(e) => { setMusicTrack(cue, e.target.files?.[0]); e.target.value = ''; }}
+                        className="sr-only"
+                      />
+                      {musicTracks[cue]?.name ?? (cue === 'intro' && styleJingle ? t.musicStyleJingle : t.musicNone)}
+                    </label>
+                    {musicTracks[cue] && (
+                      <button
+                        onClick={() => setMusicTrack(cue, undefined)}
+                        className="w-10 h-10 flex-shrink-0 flex items-center justify-center bg-white border-4 border-bauhaus-black font-bold hover:bg-bauhaus-red hover:text-white"
+                        aria-label={`${t.musicRemove}: ${musicCueLabels[cue]}`}
+                      >
+                        ×
+                      </button>
+                    )}
+                  </div>
+                  {rejectedTrack === cue && (
+                    <p role="alert" className="mt-1 text-xs font-bold text-bauhaus-red">{t.musicUndecodable}</p>
+                  )}
+                </div>
+              ))}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {musicLevelFields.map(({ key, label, min, max }) => (
+                <div key={key}>
+                  <label htmlFor={`music-${key}`} className="block text-xs font-bold uppercase mb-2">{label}</label>
+                  <input
+                    id={`music-${key}`}
+                    type="number"
+                    min={min}
+                    max={max}
+                    step={1}
+                    value={musicSettings[key]}
+                    onChange={(e) => {
+                      const value = Math.min(max, Math.max(min, Number(e.target.value) || 0));
+                      onMusicSettingsChange({ ...musicSettings, [key]: value });
+                    }}
+                    className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Rate Limit Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4 mb-4">
+              <div>
+                <h3 className="text-lg font-bold uppercase mb-1">{t.rateLimitTitle}</h3>
+                <p className="text-xs font-bold text-gray-500 max-w-md">{t.rateLimitDesc}</p>
+              </div>
+              <div className="flex gap-2">
+                <button
+                  onClick={() => onRateLimitsChange(RATE_LIMIT_PRESETS.free)}
+                  className="text-xs font-bold uppercase px-3 py-2 border-2 border-bauhaus-black bg-white hover:bg-bauhaus-yellow whitespace-nowrap"
+                >
+                  {t.rateFreeTier}
+                </button>
+                <button
+                  onClick={() => onRateLimitsChange(RATE_LIMIT_PRESETS.paid)}
+                  className="text-xs font-bold uppercase px-3 py-2 border-2 border-bauhaus-black bg-white hover:bg-bauhaus-yellow whitespace-nowrap"
+                >
+                  {t.ratePaidTier}
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              {rateLimitFields.map(({ key, label, min }) => (
+                <div key={key}>
+                  <label htmlFor={`rate-${key}`} className="block text-xs font-bold uppercase mb-2">{label}</label>
+                  <input
+                    id={`rate-${key}`}
+                    type="number"
+                    min={min}
+                    value={rateLimits[key]}
+                    onChange={(e) => {
+                      const value = Math.max(min, Math.floor(Number(e.target.value) || min));
+                      onRateLimitsChange({ ...rateLimits, [key]: value });
+                    }}
+                    className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Audio Cache Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-4">
+              <div>
+                <h3 className="text-lg font-bold uppercase mb-1">{t.audioCacheTitle}</h3>
+                <p className="text-xs font-bold text-gray-500 max-w-md">
+                  {t.audioCacheDesc} ({cachedClipCount ?? '…'} {t.audioCacheClips})
+                </p>
+              </div>
+              <button
+                onClick={handleClearCache}
+                disabled={!cachedClipCount}
+                className="text-xs font-bold uppercase px-3 py-2 border-2 border-bauhaus-black bg-white hover:bg-bauhaus-red hover:text-white whitespace-nowrap disabled:opacity-50 disabled:hover:bg-white disabled:hover:text-bauhaus-black"
+              >
+                {t.audioCacheClear}
+              </button>
+            </div>
+          </div>
+
+          {/* Audio Output Section */}
+          <div className="mb-8 p-4 border-4 border-bauhaus-black bg-gray-50">
+            <h3 className="text-lg font-bold uppercase mb-1">{t.audioOutputTitle}</h3>
+            <p className="text-xs font-bold text-gray-500 mb-4">{t.audioOutputDesc}</p>
+            <div className="flex flex-col md:flex-row gap-4">
+              <div className="flex-1">
+                <label htmlFor="audio-format" className="block text-xs font-bold uppercase mb-2">{t.videoFormat}</label>
+                <select
+                  id="audio-format"
+                  className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+                  value={audioFormat}
+                  onChange={(e) => onAudioFormatChange(e.target.value as AudioFormat)}
+                >
+                  {(Object.keys(AUDIO_FORMATS) as AudioFormat[]).map((format) => (
+                    <option key={format} value={format}>{AUDIO_FORMATS[format].label}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="flex-1">
+                <label htmlFor="audio-bitrate" className="block text-xs font-bold uppercase mb-2">{t.audioBitrate}</label>
+                <select
+                  id="audio-bitrate"
+                  className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow disabled:opacity-50"
+                  value={audioBitrate}
+                  onChange={(e) => onAudioBitrateChange(Number(e.target.value))}
+                  disabled={AUDIO_FORMATS[audioFormat].bitrates.length === 0}
+                >
+                  {AUDIO_FORMATS[audioFormat].bitrates.length === 0 && (
+                    <option value={0}>—</option>
+                  )}
+                  {AUDIO_FORMATS[audioFormat].bitrates.map((kbps) => (
+                    <option key={kbps} value={kbps}>{kbps} kbps</option>
+                  ))}
+                </select>
+              </div>
+            </div>
+          </div>
+
           <div className="mb-4">
             <label className="block text-xl font-bold uppercase mb-1">{t.voiceSelectTitle}</label>
             <p className="text-sm text-gray-600 font-bold uppercase">{t.voiceSelectDesc}</p>
           </div>
           
+          {/* Cast Seat Tabs */}
+          <div className="mb-4">
+            <span className="block text-xs font-bold uppercase mb-2">{t.castSpeaker}</span>
+            <div className="flex flex-wrap gap-2" role="tablist" aria-label={t.castSpeaker}>
+              {cast.map((member, i) => (
+                <button
+                  key={member.id}
+                  role="tab"
+                  aria-selected={seat === i}
+                  onClick={() => setActiveSeat(i)}
+                  className={`text-xs font-bold uppercase px-3 py-2 border-2 border-bauhaus-black whitespace-nowrap ${seat === i ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-bauhaus-yellow'}`}
+                >
+                  {member.name} · {member.voice}
+                </button>
+              ))}
+            </div>
+            {cast[seat] && (
+              <p className="text-xs font-bold text-gray-500 mt-2">{t.castRole}: {cast[seat].role}</p>
+            )}
+            {cast[seat] && (
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mt-3">
+                <label className="block">
+                  <span className="flex justify-between text-xs font-bold uppercase mb-1">
+                    {t.speakingRate}<span>×{(cast[seat].rate ?? 1).toFixed(2)}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={MIN_SPEAKING_RATE}
+                    max={MAX_SPEAKING_RATE}
+                    step={0.05}
+                    value={cast[seat].rate ?? 1}
+                    onChange={(e) => onShapingChange({ rate: parseFloat(e.target.value) })}
+                    className="w-full accent-bauhaus-black"
+                  />
+                </label>
+                <label className="block">
+                  <span className="flex justify-between text-xs font-bold uppercase mb-1">
+                    {t.voicePitch}<span>{(cast[seat].pitch ?? 0) > 0 ? '+' : ''}{cast[seat].pitch ?? 0} {t.semitones}</span>
+                  </span>
+                  <input
+                    type="range"
+                    min={-MAX_PITCH_SEMITONES}
+                    max={MAX_PITCH_SEMITONES}
+                    step={1}
+                    value={cast[seat].pitch ?? 0}
+                    onChange={(e) => onShapingChange({ pitch: parseInt(e.target.value, 10) })}
+                    className="w-full accent-bauhaus-black"
+                  />
+                </label>
+                <p className="md:col-span-2 text-[10px] font-bold text-gray-500">{t.voiceShapingHint}</p>
+              </div>
+            )}
+          </div>
+
           {/* Filters */}
           <div className="flex flex-col md:flex-row gap-4 mb-6">
             <div className="flex-1">
@@ -211,9 +789,11 @@ export const ConfigurationModal: React.FC<ConfigurationModalProps> = ({
                     <div className="flex flex-col min-w-0">
                       <div className="flex items-center gap-2 mb-0.5">
                         <span className="font-bold text-sm truncate">{voice.name}</span>
-                        <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 border border-current rounded-sm ${selectedVoice === voice.name ? 'bg-bauhaus-yellow text-bauhaus-black' : 'bg-bauhaus-yellow/50'}`}>
-                          {voice.style}
-                        </span>
+                        {voice.style && (
+                          <span className={`text-[10px] uppercase font-bold px-1.5 py-0.5 border border-current rounded-sm ${selectedVoice === voice.name ? 'bg-bauhaus-yellow text-bauhaus-black' : 'bg-bauhaus-yellow/50'}`}>
+                            {voice.style}
+                          </span>
+                        )}
                       </div>
                       <span className="text-[10px] uppercase opacity-70">{voice.ssmlGender}</span>
                     </div>
@@ -0,0 +1,257 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { TRANSLATIONS } from '../constants';
+import { ProjectSummary } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectLibrary';
+
+interface ProjectLibraryModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onOpen: (id: string) => void;
+  onDeleted: (id: string) => void;
+  currentProjectId: string | null;
+  language: 'ja' | 'en';
+}
+
+const formatDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const ProjectLibraryModal: React.FC<ProjectLibraryModalProps> = ({
+  isOpen,
+  onClose,
+  onOpen,
+  onDeleted,
+  currentProjectId,
+  language
+}) => {
+  const [projects, setProjects] = useState<ProjectSummary[] | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftTitle, setDraftTitle] = useState('');
+  const [libraryError, setLibraryError] = useState<string | null>(null);
+  const t = TRANSLATIONS[language];
+
+  const refresh = async () => {
+    try {
+      setProjects(await listProjects());
+      setLibraryError(null);
+    } catch (e) {
+      console.error(e);
+      setProjects([]);
+      setLibraryError(t.libraryError);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) refresh();
+    else setEditingId(null);
+  }, [isOpen]);
+
+  // Use a ref for onClose to avoid re-triggering the effect
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  // Focus Trap and Management
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const modalElement = document.getElementById('project-library-modal');
+    const previousActiveElement = document.activeElement as HTMLElement;
+
+    if (modalElement) {
+        const focusableElements = modalElement.querySelectorAll(
+            'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
+        );
+        if (focusableElements.length > 0) {
+            (focusableElements[0] as HTMLElement).focus();
+        }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!modalElement) return;
+
+        if (e.key === 'Escape') {
+            onCloseRef.current();
+            return;
+        }
+
+        if (e.key === 'Tab') {
+            const focusableElements = modalElement.querySelectorAll(
+                'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
+            );
+            if (focusableElements.length === 0) return;
+
+            const firstElement = focusableElements[0] as HTMLElement;
+            const lastElement = focusableElements[focusableElements.length - 1] as HTMLElement;
+
+            if (e.shiftKey) {
+                if (document.activeElement === firstElement) {
+                    e.preventDefault();
+                    lastElement.focus();
+                }
+            } else {
+                if (document.activeElement === lastElement) {
+                    e.preventDefault();
+                    firstElement.focus();
+                }
+            }
+        }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+        window.removeEventListener('keydown', handleKeyDown);
+        previousActiveElement?.focus();
+    };
+  }, [isOpen]);
+
+  const runAction = async (action: () => Promise<unknown>) => {
+    try {
+      await action();
+    } catch (e) {
+      console.error(e);
+      setLibraryError(t.libraryError);
+    }
+    await refresh();
+  };
+
+  const startRename = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setDraftTitle(project.title);
+  };
+
+  const commitRename = () => {
+    const id = editingId;
+    const title = draftTitle.trim();
+    setEditingId(null);
+    if (id && title) runAction(() => renameProject(id, title));
+  };
+
+  const handleDelete = (project: ProjectSummary) => {
+    if (!window.confirm(`${t.libraryDeleteConfirm}\n${project.title}`)) return;
+    runAction(async () => {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+    });
+  };
+
+  if (!isOpen) return null;
+
+  const locale = language === 'ja' ? 'ja-JP' : 'en-US';
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/80 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="project-library-modal-title"
+    >
+      <div
+        id="project-library-modal"
+        className="relative w-full max-w-3xl max-h-[85vh] flex flex-col bg-bauhaus-white border-4 border-bauhaus-black shadow-hard"
+      >
+
+        {/* Header */}
+        <div className="bg-bauhaus-blue text-white border-b-4 border-bauhaus-black p-6 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="project-library-modal-title" className="text-2xl font-bold uppercase flex items-center gap-3">
+              <span className="text-3xl" aria-hidden="true">▤</span> {t.libraryTitle}
+            </h2>
+            <p className="text-xs font-bold mt-1 opacity-80">{t.libraryDesc}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center bg-white text-black border-4 border-black hover:bg-black hover:text-white transition-colors text-xl font-bold focus:outline-none focus:ring-4 focus:ring-bauhaus-red"
+            aria-label="Close"
+          >
+            X
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6">
+          {libraryError && (
+            <div className="mb-4 p-3 bg-bauhaus-red text-white font-bold text-sm border-4 border-bauhaus-black">{libraryError}</div>
+          )}
+          {projects === null ? (
+            <div className="text-center text-gray-400 font-bold py-10">…</div>
+          ) : projects.length === 0 ? (
+            <div className="text-center text-gray-400 font-bold py-10">{t.libraryEmpty}</div>
+          ) : (
+            <ul className="flex flex-col gap-3">
+              {projects.map(project => (
+                <li
+                  key={project.id}
+                  className={`border-4 border-bauhaus-black p-3 flex flex-col md:flex-row md:items-center gap-3 ${project.id === currentProjectId ? 'bg-yellow-50' : 'bg-white'}`}
+                >
+                  <div className="flex-1 min-w-0">
+                    {editingId === project.id ? (
+                      <input
+                        type="text"
+                        value={draftTitle}
+                        onChange={(e) => setDraftTitle(e.target.value)}
+                        onBlur={commitRename}
+                        onKeyDown={(e) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') { e.stopPropagation(); setEditingId(null); }
+                        }}
+                        className="w-full p-1 border-2 border-bauhaus-black font-bold focus:outline-none"
+                        aria-label={t.libraryRename}
+                        autoFocus
+                      />
+                    ) : (
+                      <div className="font-bold truncate">
+                        {project.title}
+                        {project.id === currentProjectId && (
+                          <span className="ml-2 px-1.5 py-0.5 bg-bauhaus-black text-white text-[10px] uppercase align-middle">{t.libraryCurrent}</span>
+                        )}
+                      </div>
+                    )}
+                    <div className="text-[10px] font-bold uppercase text-gray-500 mt-1 flex flex-wrap gap-x-3">
+                      <span>{project.slideCount} {t.librarySlides}</span>
+                      <span>{formatDuration(project.duration)}</span>
+                      <span>{t.libraryUpdated} {new Date(project.updatedAt).toLocaleString(locale)}</span>
+                    </div>
+                  </div>
+                  <div className="flex gap-2 flex-shrink-0 text-[10px] font-bold uppercase">
+                    <button
+                      onClick={() => onOpen(project.id)}
+                      className="px-3 py-1.5 bg-bauhaus-black text-white border-2 border-bauhaus-black hover:bg-white hover:text-black"
+                    >
+                      {t.libraryOpen}
+                    </button>
+                    <button
+                      onClick={() => startRename(project)}
+                      className="px-3 py-1.5 bg-white border-2 border-bauhaus-black hover:bg-gray-100"
+                    >
+                      {t.libraryRename}
+                    </button>
+                    <button
+                      onClick={() => runAction(() => duplicateProject(project.id, `${project.title} ${t.libraryCopySuffix}`))}
+                      className="px-3 py-1.5 bg-white border-2 border-bauhaus-black hover:bg-gray-100"
+                    >
+                      {t.libraryDuplicate}
+                    </button>
+                    <button
+                      onClick={() => handleDelete(project)}
+                      className="px-3 py-1.5 bg-white border-2 border-bauhaus-black hover:bg-bauhaus-red hover:text-white"
+                    >
+                      {t.libraryDelete}
+                    </button>
+                  </div>
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
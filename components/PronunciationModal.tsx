@@ -0,0 +1,216 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { TRANSLATIONS } from '../constants';
+import { PronunciationEntry } from '../types';
+
+interface PronunciationModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  projectEntries: PronunciationEntry[];
+  onProjectEntriesChange: (entries: PronunciationEntry[]) => void;
+  globalEntries: PronunciationEntry[];
+  onGlobalEntriesChange: (entries: PronunciationEntry[]) => void;
+  language: 'ja' | 'en';
+}
+
+type GlossaryScope = 'project' | 'global';
+
+const inputClass = "w-full p-2 border-2 border-bauhaus-black font-bold bg-white focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow";
+
+export const PronunciationModal: React.FC<PronunciationModalProps> = ({
+  isOpen,
+  onClose,
+  projectEntries,
+  onProjectEntriesChange,
+  globalEntries,
+  onGlobalEntriesChange,
+  language
+}) => {
+  const [scope, setScope] = useState<GlossaryScope>('project');
+  const t = TRANSLATIONS[language];
+
+  const entries = scope === 'project' ? projectEntries : globalEntries;
+  const onChange = scope === 'project' ? onProjectEntriesChange : onGlobalEntriesChange;
+
+  const updateEntry = (index: number, changes: Partial<PronunciationEntry>) =>
+    onChange(entries.map((entry, i) => i === index ? { ...entry, ...changes } : entry));
+
+  // Use a ref for onClose to avoid re-triggering the effect
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  // Focus Trap and Management
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const modalElement = document.getElementById('pronunciation-modal');
+    const previousActiveElement = document.activeElement as HTMLElement;
+
+    if (modalElement) {
+        const focusableElements = modalElement.querySelectorAll(
+            'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
+        );
+        if (focusableElements.length > 0) {
+            (focusableElements[0] as HTMLElement).focus();
+        }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!modalElement) return;
+
+        if (e.key === 'Escape') {
+            onCloseRef.current();
+            return;
+        }
+
+        if (e.key === 'Tab') {
+            const focusableElements = modalElement.querySelectorAll(
+                'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
+            );
+            if (focusableElements.length === 0) return;
+
+            const firstElement = focusableElements[0] as HTMLElement;
+            const lastElement = focusableElements[focusableElements.length - 1] as HTMLElement;
+
+            if (e.shiftKey) {
+                if (document.activeElement === firstElement) {
+                    e.preventDefault();
+                    lastElement.focus();
+                }
+            } else {
+                if (document.activeElement === lastElement) {
+                    e.preventDefault();
+                    firstElement.focus();
+                }
+            }
+        }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+        window.removeEventListener('keydown', handleKeyDown);
+        previousActiveElement?.focus();
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const scopes: { id: GlossaryScope; label: string; count: number }[] = [
+    { id: 'project', label: t.glossaryProject, count: projectEntries.length },
+    { id: 'global', label: t.glossaryGlobal, count: globalEntries.length },
+  ];
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/80 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="pronunciation-modal-title"
+    >
+      <div
+        id="pronunciation-modal"
+        className="relative w-full max-w-3xl max-h-[85vh] flex flex-col bg-bauhaus-white border-4 border-bauhaus-black shadow-hard"
+      >
+
+        {/* Header */}
+        <div className="bg-bauhaus-yellow border-b-4 border-bauhaus-black p-6 flex justify-between items-center flex-shrink-0">
+          <div>
+            <h2 id="pronunciation-modal-title" className="text-2xl font-bold uppercase flex items-center gap-3">
+              <span className="text-3xl" aria-hidden="true">あ</span> {t.glossaryTitle}
+            </h2>
+            <p className="text-xs font-bold mt-1 opacity-80">{t.glossaryDesc}</p>
+          </div>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center bg-white border-4 border-black hover:bg-black hover:text-white transition-colors text-xl font-bold focus:outline-none focus:ring-4 focus:ring-bauhaus-red"
+            aria-label="Close"
+          >
+            X
+          </button>
+        </div>
+
+        {/* Scope Tabs */}
+        <div className="flex gap-2 px-4 md:px-6 pt-4" role="tablist" aria-label={t.glossaryTitle}>
+          {scopes.map(({ id, label, count }) => (
+            <button
+              key={id}
+              role="tab"
+              aria-selected={scope === id}
+              onClick={() => setScope(id)}
+              className={`text-xs font-bold uppercase px-3 py-2 border-2 border-bauhaus-black whitespace-nowrap ${scope === id ? 'bg-bauhaus-black text-white' : 'bg-white hover:bg-bauhaus-yellow'}`}
+            >
+              {label} ({count})
+            </button>
+          ))}
+        </div>
+
+        {/* Content */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 md:p-6">
+          <p className="text-[10px] font-bold text-gray-500 mb-3">
+            {scope === 'project' ? t.glossaryProjectHint : t.glossaryGlobalHint}
+          </p>
+          {entries.length === 0 ? (
+            <div className="text-center text-gray-400 font-bold py-6">{t.glossaryEmpty}</div>
+          ) : (
+            <div className="flex flex-col gap-2">
+              <div className="hidden md:grid grid-cols-[1fr_1fr_6rem_2.5rem] gap-2 text-[10px] font-bold uppercase text-gray-500">
+                <span>{t.glossaryTerm}</span>
+                <span>{t.glossarySpoken}</span>
+                <span>{t.glossaryLanguage}</span>
+                <span></span>
+              </div>
+              {entries.map((entry, index) => (
+                <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_1fr_6rem_2.5rem] gap-2 items-center">
+                  <input
+                    type="text"
+                    value={entry.term}
+                    onChange={(e) => updateEntry(index, { term: e.target.value })}
+                    placeholder={t.glossaryTermPlaceholder}
+                    className={inputClass}
+                    aria-label={t.glossaryTerm}
+                  />
+                  <input
+                    type="text"
+                    value={entry.spoken}
+                    onChange={(e) => updateEntry(index, { spoken: e.target.value })}
+                    placeholder={t.glossarySpokenPlaceholder}
+                    className={inputClass}
+                    aria-label={t.glossarySpoken}
+                  />
+                  <select
+                    value={entry.language}
+                    onChange={(e) => updateEntry(index, { language: e.target.value as PronunciationEntry['language'] })}
+                    className={inputClass}
+                    aria-label={t.glossaryLanguage}
+                  >
+                    <option value="ja">JA</option>
+                    <option value="en">EN</option>
+                  </select>
+                  <button
+                    onClick={() => onChange(entries.filter((_, i) => i !== index))}
+                    className="h-10 flex items-center justify-center bg-white border-2 border-bauhaus-black font-bold hover:bg-bauhaus-red hover:text-white"
+                    aria-label={t.glossaryDelete}
+                  >
+                    ×
+                  </button>
+                </div>
+              ))}
+            </div>
+          )}
+          <button
+            onClick={() => onChange([...entries, { term: '', spoken: '', language }])}
+            className="mt-4 px-4 py-2 text-xs font-bold uppercase border-2 border-dashed border-bauhaus-black text-gray-500 hover:bg-white hover:text-black"
+          >
+            + {t.glossaryAdd}
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,77 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { TRANSLATIONS } from '../constants';
+import { DiagnosticCode, QuickFix, ScriptDiagnostic } from '../services/scriptLinter';
+
+interface ScriptDiagnosticsPanelProps {
+  diagnostics: ScriptDiagnostic[];
+  isOpen: boolean;
+  onToggle: () => void;
+  onApplyFix: (fix: QuickFix) => void;
+  language: 'ja' | 'en';
+}
+
+const MESSAGE_KEYS: Record<DiagnosticCode, keyof typeof TRANSLATIONS['en']> = {
+  'slide-out-of-range': 'lintSlideOutOfRange',
+  'slide-skipped': 'lintSlideSkipped',
+  'slide-order': 'lintSlideOrder',
+  'unlabelled-line': 'lintUnlabelledLine',
+  'unknown-speaker': 'lintUnknownSpeaker',
+  'visual-description': 'lintVisualDescription',
+};
+
+export const ScriptDiagnosticsPanel: React.FC<ScriptDiagnosticsPanelProps> = ({
+  diagnostics,
+  isOpen,
+  onToggle,
+  onApplyFix,
+  language
+}) => {
+  const t = TRANSLATIONS[language];
+
+  if (diagnostics.length === 0) return null;
+
+  const errorCount = diagnostics.filter(d => d.severity === 'error').length;
+  const warningCount = diagnostics.length - errorCount;
+
+  return (
+    <div className="flex-shrink-0 border-t-4 border-bauhaus-black bg-white">
+      <button
+        onClick={onToggle}
+        className="w-full flex items-center justify-between px-4 py-2 text-xs font-bold uppercase hover:bg-gray-100"
+      >
+        <span className="flex items-center gap-3">
+          <span>{t.diagnosticsTitle}</span>
+          {errorCount > 0 && <span className="px-2 py-0.5 bg-bauhaus-red text-white">{errorCount} {t.diagnosticsErrors}</span>}
+          {warningCount > 0 && <span className="px-2 py-0.5 bg-bauhaus-yellow text-black">{warningCount} {t.diagnosticsWarnings}</span>}
+        </span>
+        <span>{isOpen ? '▾' : '▸'}</span>
+      </button>
+
+      {isOpen && (
+        <ul className="max-h-40 overflow-y-auto custom-scrollbar border-t-2 border-bauhaus-black divide-y divide-gray-200">
+          {diagnostics.map((diagnostic, idx) => (
+            <li key={`${diagnostic.code}-${diagnostic.line}-${idx}`} className="flex items-center gap-3 px-4 py-1.5 text-xs">
+              <span className={`w-2 h-2 flex-shrink-0 ${diagnostic.severity === 'error' ? 'bg-bauhaus-red' : 'bg-bauhaus-yellow'}`}></span>
+              <span className="font-mono text-gray-500 flex-shrink-0">{t.diagnosticsLine} {diagnostic.line}</span>
+              <span className="flex-1 truncate">
+                {t[MESSAGE_KEYS[diagnostic.code]]}<span className="font-mono">{diagnostic.detail}</span>
+              </span>
+              {diagnostic.fix && (
+                <button
+                  onClick={() => onApplyFix(diagnostic.fix!)}
+                  className="flex-shrink-0 px-2 py-0.5 border-2 border-bauhaus-black font-bold uppercase hover:bg-bauhaus-black hover:text-white"
+                >
+                  {t.diagnosticsFix}
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,65 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React from 'react';
+import { TRANSLATIONS } from '../constants';
+import { HistoryStepKind, ScriptHistory } from '../services/scriptHistory';
+
+interface ScriptHistoryPanelProps {
+  history: ScriptHistory;
+  onJump: (index: number) => void;
+  onClose: () => void;
+  language: 'ja' | 'en';
+}
+
+const LABEL_KEYS: Record<HistoryStepKind, keyof typeof TRANSLATIONS['en']> = {
+  'initial': 'historyInitial',
+  'open': 'historyOpen',
+  'edit': 'historyEdit',
+  'transcript': 'historyTranscript',
+  'quick-fix': 'historyQuickFix',
+  'generate': 'historyGenerate',
+  'regenerate': 'historyRegenerate',
+};
+
+export const ScriptHistoryPanel: React.FC<ScriptHistoryPanelProps> = ({
+  history,
+  onJump,
+  onClose,
+  language
+}) => {
+  const t = TRANSLATIONS[language];
+  const locale = language === 'ja' ? 'ja-JP' : 'en-US';
+
+  return (
+    <div className="absolute top-2 right-2 z-20 w-72 max-h-[70%] flex flex-col bg-white border-4 border-bauhaus-black shadow-hard">
+      <div className="flex items-center justify-between px-3 py-2 border-b-2 border-bauhaus-black bg-gray-100">
+        <span className="text-xs font-bold uppercase">{t.historyTitle}</span>
+        <button onClick={onClose} className="text-xs font-bold px-1 hover:text-bauhaus-red" aria-label="Close">X</button>
+      </div>
+      {/* Newest first; entries after the current one can still be redone */}
+      <ul className="overflow-y-auto custom-scrollbar divide-y divide-gray-200">
+        {history.entries.map((entry, index) => ({ entry, index })).reverse().map(({ entry, index }) => (
+          <li key={entry.id}>
+            <button
+              onClick={() => onJump(index)}
+              className={`w-full text-left px-3 py-2 text-xs flex items-center justify-between gap-2 hover:bg-gray-100
+                ${index === history.index ? 'bg-bauhaus-yellow font-bold' : ''}
+                ${index > history.index ? 'text-gray-400' : ''}`}
+              aria-current={index === history.index}
+            >
+              <span className="truncate">
+                {entry.kind === 'generate' || entry.kind === 'regenerate' ? '✦ ' : ''}
+                {t[LABEL_KEYS[entry.kind]]}{entry.detail ? ` ${entry.detail}` : ''}
+              </span>
+              <span className="font-mono text-[10px] text-gray-500 flex-shrink-0">
+                {new Date(entry.timestamp).toLocaleTimeString(locale)}
+              </span>
+            </button>
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
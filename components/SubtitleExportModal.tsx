@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { BauhausButton } from './BauhausComponents';
+import { TRANSLATIONS } from '../constants';
+import { SubtitleFormat } from '../services/subtitles';
+
+interface SubtitleExportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onExport: (format: SubtitleFormat, includeSpeakerNames: boolean, includeChapters: boolean) => void;
+  language: 'ja' | 'en';
+}
+
+export const SubtitleExportModal: React.FC<SubtitleExportModalProps> = ({
+  isOpen,
+  onClose,
+  onExport,
+  language
+}) => {
+  const [format, setFormat] = useState<SubtitleFormat>('srt');
+  const [includeSpeakerNames, setIncludeSpeakerNames] = useState(true);
+  const [includeChapters, setIncludeChapters] = useState(false);
+  const t = TRANSLATIONS[language];
+
+  // Use a ref for onClose to avoid re-triggering the effect
+  const onCloseRef = useRef(onClose);
+  useEffect(() => {
+    onCloseRef.current = onClose;
+  }, [onClose]);
+
+  // Focus Trap and Management
+  useEffect(() => {
+    if (!isOpen) return;
+
+    const modalElement = document.getElementById('subtitle-export-modal');
+    const previousActiveElement = document.activeElement as HTMLElement;
+
+    if (modalElement) {
+        const focusableElements = modalElement.querySelectorAll(
+            'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
+        );
+        if (focusableElements.length > 0) {
+            (focusableElements[0] as HTMLElement).focus();
+        }
+    }
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!modalElement) return;
+
+        if (e.key === 'Escape') {
+            onCloseRef.current();
+            return;
+        }
+
+        if (e.key === 'Tab') {
+            const focusableElements = modalElement.querySelectorAll(
+                'button, [href], input, select, textarea, [tabindex]:not([tabindex="-1"])'
+            );
+            if (focusableElements.length === 0) return;
+
+            const firstElement = focusableElements[0] as HTMLElement;
+            const lastElement = focusableElements[focusableElements.length - 1] as HTMLElement;
+
+            if (e.shiftKey) {
+                if (document.activeElement === firstElement) {
+                    e.preventDefault();
+                    lastElement.focus();
+                }
+            } else {
+                if (document.activeElement === lastElement) {
+                    e.preventDefault();
+                    firstElement.focus();
+                }
+            }
+        }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+
+    return () => {
+        window.removeEventListener('keydown', handleKeyDown);
+        previousActiveElement?.focus();
+    };
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  return (
+    <div
+      className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-bauhaus-black/80 backdrop-blur-sm"
+      role="dialog"
+      aria-modal="true"
+      aria-labelledby="subtitle-export-modal-title"
+    >
+      <div
+        id="subtitle-export-modal"
+        className="relative w-full max-w-lg flex flex-col bg-bauhaus-white border-4 border-bauhaus-black shadow-hard"
+      >
+
+        {/* Header */}
+        <div className="bg-bauhaus-yellow border-b-4 border-bauhaus-black p-6 flex justify-between items-center flex-shrink-0">
+          <h2 id="subtitle-export-modal-title" className="text-2xl font-bold uppercase flex items-center gap-3">
+            <span className="text-3xl" aria-hidden="true">㏄</span> {t.subtitleExportTitle}
+          </h2>
+          <button
+            onClick={onClose}
+            className="w-10 h-10 flex items-center justify-center bg-white border-4 border-black hover:bg-black hover:text-white transition-colors text-xl font-bold focus:outline-none focus:ring-4 focus:ring-bauhaus-red"
+            aria-label="Close"
+          >
+            X
+          </button>
+        </div>
+
+        {/* Content */}
+        <div className="p-6 md:p-8 flex flex-col gap-6">
+          <div>
+            <label htmlFor="subtitle-format" className="block text-xs font-bold uppercase mb-2">{t.videoFormat}</label>
+            <select
+              id="subtitle-format"
+              className="w-full p-3 border-4 border-bauhaus-black font-bold bg-white focus:outline-none focus:shadow-hard-sm focus:ring-4 focus:ring-bauhaus-yellow"
+              value={format}
+              onChange={(e) => setFormat(e.target.value as SubtitleFormat)}
+            >
+              <option value="srt">SubRip (.srt)</option>
+              <option value="vtt">WebVTT (.vtt)</option>
+            </select>
+          </div>
+
+          <label className="flex items-center gap-3 font-bold uppercase text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeSpeakerNames}
+              onChange={(e) => setIncludeSpeakerNames(e.target.checked)}
+              className="w-5 h-5 accent-bauhaus-black"
+            />
+            {t.subtitleSpeakerNames}
+          </label>
+
+          <label className="flex items-center gap-3 font-bold uppercase text-sm cursor-pointer">
+            <input
+              type="checkbox"
+              checked={includeChapters}
+              onChange={(e) => setIncludeChapters(e.target.checked)}
+              className="w-5 h-5 accent-bauhaus-black"
+            />
+            {t.subtitleChapters}
+          </label>
+        </div>
+
+        {/* Footer */}
+        <div className="p-4 border-t-4 border-bauhaus-black bg-white flex justify-end gap-4 flex-shrink-0">
+            <button
+                onClick={onClose}
+                className="font-bold uppercase text-sm px-6 py-3 border-2 border-transparent hover:underline"
+            >
+                {t.cancel}
+            </button>
+            <BauhausButton onClick={() => onExport(format, includeSpeakerNames, includeChapters)} className="py-2 px-6 text-sm">
+                {t.startExport}
+            </BauhausButton>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -4,17 +4,19 @@
 */
 import React, { useEffect, useState, useRef } from 'react';
 import { BauhausButton } from './BauhausComponents';
-import { ALL_VOICES } from '../voices';
+import { VoiceData } from '../voices';
 import { TRANSLATIONS } from '../constants';
+import { CastMember } from '../types';
+import { MAX_PITCH_SEMITONES, MAX_SPEAKING_RATE, MIN_SPEAKING_RATE } from '../services/voiceShaping';
 
 interface SystemPromptModalProps {
   isOpen: boolean;
   onClose: () => void;
   prompt: string;
   isEditable?: boolean;
-  onSave?: (newPrompt: string, newVoice?: string, secondVoice?: string) => void;
-  currentVoice?: string;
-  secondVoice?: string;
+  onSave?: (newPrompt: string, newCast?: CastMember[]) => void;
+  cast: CastMember[];
+  voices: VoiceData[];
   language: 'ja' | 'en';
 }
 
@@ -24,25 +26,23 @@ export const SystemPromptModal: React.FC<SystemPromptModalProps> = ({
   prompt,
   isEditable = false,
   onSave,
-  currentVoice,
-  secondVoice,
+  cast,
+  voices,
   language
 }) => {
   const [localPrompt, setLocalPrompt] = useState(prompt);
-  const [localVoice, setLocalVoice] = useState(currentVoice || (ALL_VOICES[0] ? ALL_VOICES[0].name : ''));
-  const [localSecondVoice, setLocalSecondVoice] = useState(secondVoice || 'Kore');
+  const [localCast, setLocalCast] = useState(cast);
   const t = TRANSLATIONS[language];
 
   // Sync local state when props change
   useEffect(() => {
     setLocalPrompt(prompt);
-    if (currentVoice) {
-        setLocalVoice(currentVoice);
-    }
-    if (secondVoice) {
-        setLocalSecondVoice(secondVoice);
-    }
-  }, [prompt, currentVoice, secondVoice]);
+    setLocalCast(cast);
+  }, [prompt, cast]);
+
+  const updateLocalMember = (index: number, patch: Partial<CastMember>) => {
+    setLocalCast(prev => prev.map((m, i) => i === index ? { ...m, ...patch } : m));
+  };
 
   // Use a ref for onClose to avoid re-triggering the effect
   const onCloseRef = useRef(onClose);
@@ -119,7 +119,7 @@ export const SystemPromptModal: React.FC<SystemPromptModalProps> = ({
 
   const handleSave = () => {
     if (onSave) {
-      onSave(localPrompt, localVoice, localSecondVoice);
+      onSave(localPrompt, localCast);
     }
     onClose();
   };
@@ -163,41 +163,61 @@ export const SystemPromptModal: React.FC<SystemPromptModalProps> = ({
                  <label className="block text-sm font-bold uppercase mb-2">{t.voiceSettings}</label>
                  
                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                    <div>
-                        <span className="text-xs font-bold text-gray-500 block mb-1">{t.hostRole}</span>
-                        <div className="relative">
-                            <select
-                                value={localVoice}
-                                onChange={(e) => setLocalVoice(e.target.value)}
-                                className="w-full appearance-none p-3 border-4 border-bauhaus-black font-bold text-sm bg-white focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow cursor-pointer"
-                            >
-                                {ALL_VOICES.map((v) => (
-                                    <option key={v.name} value={v.name}>
-                                        {v.name} ({v.ssmlGender})
-                                    </option>
-                                ))}
-                            </select>
-                            <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none font-bold text-xs">▼</div>
-                        </div>
-                    </div>
-
-                    <div>
-                        <span className="text-xs font-bold text-gray-500 block mb-1">{t.expertRole}</span>
-                        <div className="relative">
-                            <select
-                                value={localSecondVoice}
-                                onChange={(e) => setLocalSecondVoice(e.target.value)}
-                                className="w-full appearance-none p-3 border-4 border-bauhaus-black font-bold text-sm bg-white focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow cursor-pointer"
-                            >
-                                {ALL_VOICES.map((v) => (
-                                    <option key={v.name} value={v.name}>
-                                        {v.name} ({v.ssmlGender})
-                                    </option>
-                                ))}
-                            </select>
-                            <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none font-bold text-xs">▼</div>
-                        </div>
-                    </div>
+                    {localCast.map((member, i) => (
+                      <div key={member.id}>
+                          <span className="text-xs font-bold text-gray-500 block mb-1">
+                              {member.name} ({i === 0 ? t.hostRole : i === 1 ? t.expertRole : t.guestNameLabel})
+                          </span>
+                          <div className="relative">
+                              <select
+                                  value={member.voice}
+                                  onChange={(e) => updateLocalMember(i, { voice: e.target.value })}
+                                  className="w-full appearance-none p-3 border-4 border-bauhaus-black font-bold text-sm bg-white focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow cursor-pointer"
+                              >
+                                  {voices.map((v) => (
+                                      <option key={v.name} value={v.name}>
+                                          {v.name} ({v.ssmlGender})
+                                      </option>
+                                  ))}
+                              </select>
+                              <div className="absolute right-4 top-1/2 -translate-y-1/2 pointer-events-none font-bold text-xs">▼</div>
+                          </div>
+                          <input
+                              type="text"
+                              value={member.role}
+                              onChange={(e) => updateLocalMember(i, { role: e.target.value })}
+                              aria-label={`${member.name} ${t.castRole}`}
+                              placeholder={t.castRole}
+                              className="mt-2 w-full p-2 border-2 border-bauhaus-black text-xs font-bold bg-white focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow"
+                          />
+                          <div className="mt-2 grid grid-cols-2 gap-2">
+                              <label className="text-[10px] font-bold uppercase text-gray-500">
+                                  {t.speakingRate} (×)
+                                  <input
+                                      type="number"
+                                      min={MIN_SPEAKING_RATE}
+                                      max={MAX_SPEAKING_RATE}
+                                      step={0.05}
+                                      value={member.rate ?? 1}
+                                      onChange={(e) => updateLocalMember(i, { rate: Math.min(MAX_SPEAKING_RATE, Math.max(MIN_SPEAKING_RATE, parseFloat(e.target.value) || 1)) })}
+                                      className="mt-1 w-full p-2 border-2 border-bauhaus-black text-xs font-bold text-black bg-white focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow"
+                                  />
+                              </label>
+                              <label className="text-[10px] font-bold uppercase text-gray-500">
+                                  {t.voicePitch} ({t.semitones})
+                                  <input
+                                      type="number"
+                                      min={-MAX_PITCH_SEMITONES}
+                                      max={MAX_PITCH_SEMITONES}
+                                      step={1}
+                                      value={member.pitch ?? 0}
+                                      onChange={(e) => updateLocalMember(i, { pitch: Math.min(MAX_PITCH_SEMITONES, Math.max(-MAX_PITCH_SEMITONES, parseInt(e.target.value, 10) || 0)) })}
+                                      className="mt-1 w-full p-2 border-2 border-bauhaus-black text-xs font-bold text-black bg-white focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow"
+                                  />
+                              </label>
+                          </div>
+                      </div>
+                    ))}
                  </div>
 
                  <p className="mt-2 text-xs text-gray-500 font-bold uppercase">{t.personaDesc}</p>
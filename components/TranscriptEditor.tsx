@@ -0,0 +1,263 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef } from 'react';
+import { TRANSLATIONS } from '../constants';
+import { CastMember } from '../types';
+import { getCastIndex, getSpeakerName } from '../services/cast';
+import { EditableTurn, updateTurn, splitTurn, mergeWithNextTurn, insertTurn, removeTurn, moveTurn, isInterjection, toggleInterjection, getTurnDelivery, setTurnDelivery } from '../services/turnEditor';
+import { DELIVERY_CUES, parseDeliveryCues } from '../services/delivery';
+
+interface TranscriptEditorProps {
+  turns: EditableTurn[];
+  cast: CastMember[];
+  slideCount: number;
+  onChange: (turns: EditableTurn[]) => void;
+  seatStyle: (speaker: string) => { bubble: string; label: string };
+  turnStartTimes?: number[]; // By EditableTurn.source; present once audio exists, clicking a turn then seeks to it
+  activeTurn?: number; // EditableTurn.source of the turn being played
+  onSeek?: (time: number) => void;
+  spokenText?: (text: string) => string; // When set, each bubble also shows what the voice will say
+  language: 'ja' | 'en';
+}
+
+const controlClass = "text-[10px] font-bold uppercase px-1.5 py-0.5 bg-white border-2 border-bauhaus-black hover:bg-bauhaus-black hover:text-white disabled:opacity-30";
+
+/**
+ * Chat-bubble view of the script that edits turns directly. Structural changes are
+ * reported right away; text is reported when a bubble loses focus.
+ */
+export const TranscriptEditor: React.FC<TranscriptEditorProps> = ({
+  turns,
+  cast,
+  slideCount,
+  onChange,
+  seatStyle,
+  turnStartTimes = [],
+  activeTurn,
+  onSeek,
+  spokenText,
+  language
+}) => {
+  const [draft, setDraft] = useState<EditableTurn[]>(turns);
+  const [editingIndex, setEditingIndex] = useState<number | null>(null);
+  const [dragIndex, setDragIndex] = useState<number | null>(null);
+  const [dropIndex, setDropIndex] = useState<number | null>(null);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const t = TRANSLATIONS[language];
+
+  // The script is the source of truth; drop local drafts whenever it changes
+  useEffect(() => {
+    setDraft(turns);
+    setEditingIndex(null);
+  }, [turns]);
+
+  const slideOptions = Array.from(
+    { length: Math.max(slideCount, ...draft.map(turn => turn.slide), 1) },
+    (_, i) => i + 1
+  );
+
+  const commit = (next: EditableTurn[]) => {
+    setEditingIndex(null);
+    if (JSON.stringify(next) === JSON.stringify(turns)) {
+      setDraft(turns); // Also discards a new turn that was left empty
+      return;
+    }
+    onChange(next);
+  };
+
+  // New turns go to whoever would speak next, on the same slide as the turn before
+  const handleInsert = (index: number) => {
+    const previous = draft[index - 1];
+    const seat = previous ? (getCastIndex(cast, previous.speaker) + 1) % cast.length : 0;
+    setDraft(insertTurn(draft, index, cast[seat].id, previous?.slide ?? 1));
+    setEditingIndex(index);
+  };
+
+  const handleSplit = (index: number) => {
+    const offset = textareaRef.current?.selectionStart ?? 0;
+    commit(splitTurn(draft, index, offset));
+  };
+
+  const handleDrop = () => {
+    if (dragIndex !== null && dropIndex !== null) commit(moveTurn(draft, dragIndex, dropIndex));
+    setDragIndex(null);
+    setDropIndex(null);
+  };
+
+  return (
+    <div className="flex-1 overflow-y-auto p-4 md:p-8 custom-scrollbar bg-gray-50 flex flex-col gap-4">
+      {draft.map((turn, index) => {
+        const isHost = Math.max(0, getCastIndex(cast, turn.speaker)) === 0;
+        const style = seatStyle(turn.speaker);
+        const isEditing = editingIndex === index;
+        const startsSlide = index === 0 || draft[index - 1].slide !== turn.slide;
+        const startTime = turn.source !== undefined ? turnStartTimes[turn.source] : undefined;
+        const canSeek = onSeek !== undefined && startTime !== undefined;
+        const delivery = getTurnDelivery(turn).join(', ');
+
+        return (
+          <React.Fragment key={index}>
+            {startsSlide && (
+              <div className="flex items-center gap-3 text-[10px] font-black uppercase tracking-widest text-gray-400 mt-2">
+                <div className="flex-1 h-px bg-gray-300"></div>
+                {t.transcriptSlide} {turn.slide}
+                <div className="flex-1 h-px bg-gray-300"></div>
+              </div>
+            )}
+            {dropIndex === index && dragIndex !== null && <div className="h-1 bg-bauhaus-blue"></div>}
+            <div
+              className={`group flex w-full ${isHost ? 'justify-start' : 'justify-end'} ${dragIndex === index ? 'opacity-40' : ''}`}
+              draggable={!isEditing}
+              onDragStart={(e) => { setDragIndex(index); e.dataTransfer.effectAllowed = 'move'; }}
+              onDragOver={(e) => {
+                if (dragIndex === null) return;
+                e.preventDefault();
+                const rect = e.currentTarget.getBoundingClientRect();
+                setDropIndex(e.clientY < rect.top + rect.height / 2 ? index : index + 1);
+              }}
+              onDrop={(e) => { e.preventDefault(); handleDrop(); }}
+              onDragEnd={() => { setDragIndex(null); setDropIndex(null); }}
+            >
+              <div className="flex flex-col max-w-[85%] md:max-w-[70%] w-full">
+                {/* Turn controls */}
+                <div className={`flex items-center gap-1 mb-1 flex-wrap ${isHost ? 'justify-start' : 'justify-end'}`}>
+                  <span className="cursor-grab text-gray-400 select-none" title={t.transcriptDrag} aria-hidden="true">⠿</span>
+                  <select
+                    value={turn.speaker}
+                    onChange={(e) => commit(updateTurn(draft, index, { speaker: e.target.value }))}
+                    className={`text-[10px] font-bold uppercase bg-transparent focus:outline-none cursor-pointer ${style.label}`}
+                    aria-label={t.castSpeaker}
+                  >
+                    {cast.map(member => (
+                      <option key={member.id} value={member.id}>{member.name}</option>
+                    ))}
+                    {!cast.some(m => m.id === turn.speaker) && (
+                      <option value={turn.speaker}>{getSpeakerName(cast, turn.speaker)}</option>
+                    )}
+                  </select>
+                  <select
+                    value={turn.slide}
+                    onChange={(e) => commit(updateTurn(draft, index, { slide: parseInt(e.target.value, 10) }))}
+                    className="text-[10px] font-bold uppercase bg-transparent text-gray-500 focus:outline-none cursor-pointer"
+                    aria-label={t.transcriptMoveToSlide}
+                  >
+                    {slideOptions.map(n => (
+                      <option key={n} value={n}>{t.transcriptSlide} {n}</option>
+                    ))}
+                  </select>
+                  <button
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => commit(toggleInterjection(draft, index))}
+                    disabled={index === 0}
+                    className={`${controlClass} ${isInterjection(turn) ? 'bg-bauhaus-yellow' : ''}`}
+                    title={t.transcriptInterjectionHint}
+                    aria-pressed={isInterjection(turn)}
+                  >
+                    {t.transcriptInterjection}
+                  </button>
+                  <select
+                    value={delivery}
+                    onChange={(e) => commit(setTurnDelivery(draft, index, parseDeliveryCues(e.target.value)))}
+                    className={`text-[10px] font-bold uppercase bg-transparent focus:outline-none cursor-pointer ${delivery ? 'text-bauhaus-blue' : 'text-gray-500'}`}
+                    title={t.transcriptDeliveryHint}
+                    aria-label={t.transcriptDelivery}
+                  >
+                    <option value="">{t.transcriptDelivery}: —</option>
+                    {DELIVERY_CUES.map(cue => (
+                      <option key={cue} value={cue}>{cue}</option>
+                    ))}
+                    {delivery && !DELIVERY_CUES.includes(delivery) && (
+                      <option value={delivery}>{delivery}</option>
+                    )}
+                  </select>
+                  <div className={`flex gap-1 ${isEditing ? '' : 'opacity-0 group-hover:opacity-100 focus-within:opacity-100'} transition-opacity`}>
+                    {isEditing && (
+                      <button
+                        onMouseDown={(e) => e.preventDefault()} // Keep the caret position
+                        onClick={() => handleSplit(index)}
+                        className={controlClass}
+                        title={t.transcriptSplitHint}
+                      >
+                        {t.transcriptSplit}
+                      </button>
+                    )}
+                    <button
+                      onClick={() => commit(mergeWithNextTurn(draft, index))}
+                      disabled={index === draft.length - 1}
+                      className={controlClass}
+                      title={t.transcriptMergeHint}
+                    >
+                      {t.transcriptMerge}
+                    </button>
+                    <button onClick={() => handleInsert(index + 1)} className={controlClass} title={t.transcriptInsert}>+</button>
+                    <button
+                      onClick={() => commit(removeTurn(draft, index))}
+                      className={`${controlClass} hover:bg-bauhaus-red`}
+                      title={t.transcriptDelete}
+                      aria-label={t.transcriptDelete}
+                    >
+                      ×
+                    </button>
+                  </div>
+                </div>
+
+                {isEditing ? (
+                  <textarea
+                    ref={textareaRef}
+                    autoFocus
+                    value={turn.text}
+                    onChange={(e) => setDraft(updateTurn(draft, index, { text: e.target.value }))}
+                    onBlur={() => commit(draft)}
+                    onKeyDown={(e) => {
+                      if (e.key === 'Escape') { e.stopPropagation(); setDraft(turns); setEditingIndex(null); }
+                      if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) commit(draft);
+                    }}
+                    rows={Math.max(2, Math.ceil(turn.text.length / 40))}
+                    className={`p-4 rounded-2xl text-sm md:text-base font-medium leading-relaxed resize-none focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow ${style.bubble} ${isHost ? 'rounded-tl-none' : 'rounded-tr-none'}`}
+                    placeholder={t.transcriptPlaceholder}
+                  />
+                ) : (
+                  <div
+                    role="button"
+                    tabIndex={0}
+                    onClick={() => canSeek ? onSeek!(startTime) : setEditingIndex(index)}
+                    onDoubleClick={() => setEditingIndex(index)}
+                    onKeyDown={(e) => { if (e.key === 'Enter') setEditingIndex(index); }}
+                    className={`
+                      p-4 md:p-5 rounded-2xl text-sm md:text-base font-medium leading-relaxed shadow-sm hover:ring-2 hover:ring-gray-300
+                      ${canSeek ? 'cursor-pointer' : 'cursor-text'}
+                      ${turn.source !== undefined && activeTurn === turn.source ? 'ring-4 ring-bauhaus-red' : ''}
+                      ${style.bubble}
+                      ${isHost ? 'rounded-tl-none' : 'rounded-tr-none'}
+                    `}
+                    title={canSeek ? t.transcriptSeekHint : t.transcriptEditHint}
+                  >
+                    {turn.text}
+                  </div>
+                )}
+                {spokenText && !isEditing && (
+                  <div className={`mt-1 px-3 text-xs font-medium text-gray-500 ${isHost ? 'text-left' : 'text-right'}`}>
+                    <span aria-hidden="true">🔊 </span>{spokenText(turn.text)}
+                  </div>
+                )}
+              </div>
+            </div>
+          </React.Fragment>
+        );
+      })}
+      {dropIndex === draft.length && dragIndex !== null && <div className="h-1 bg-bauhaus-blue"></div>}
+
+      {draft.length === 0 && (
+        <div className="text-center text-gray-400 mt-10">{t.noScript}</div>
+      )}
+      <button
+        onClick={() => handleInsert(draft.length)}
+        className="self-center mt-2 px-4 py-2 text-xs font-bold uppercase border-2 border-dashed border-bauhaus-black text-gray-500 hover:bg-white hover:text-black"
+      >
+        + {t.transcriptInsert}
+      </button>
+    </div>
+  );
+};
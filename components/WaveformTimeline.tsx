@@ -0,0 +1,177 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { TRANSLATIONS } from '../constants';
+import { CastMember, ScriptSegment } from '../types';
+import { getCastIndex, getSpeakerName, SEAT_COLORS } from '../services/cast';
+import { computeWaveformPeaks } from '../services/waveform';
+
+interface WaveformTimelineProps {
+  audioUrl: string;
+  duration: number;
+  currentTime: number;
+  segments: ScriptSegment[];
+  cast: CastMember[];
+  onSeek: (time: number) => void;
+  language: 'ja' | 'en';
+}
+
+const PEAK_BUCKETS = 800;
+const KEYBOARD_STEP_SEC = 5;
+
+const formatClock = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  return `${Math.floor(total / 60)}:${String(total % 60).padStart(2, '0')}`;
+};
+
+export const WaveformTimeline: React.FC<WaveformTimelineProps> = ({
+  audioUrl,
+  duration,
+  currentTime,
+  segments,
+  cast,
+  onSeek,
+  language
+}) => {
+  const [peaks, setPeaks] = useState<Float32Array | null>(null);
+  const [width, setWidth] = useState(0);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const isDraggingRef = useRef(false);
+  const t = TRANSLATIONS[language];
+
+  useEffect(() => {
+    let cancelled = false;
+    setPeaks(null);
+    fetch(audioUrl)
+      .then(response => response.blob())
+      .then(blob => computeWaveformPeaks(blob, PEAK_BUCKETS))
+      .then(result => { if (!cancelled) setPeaks(result); })
+      .catch(e => console.warn("Waveform decoding failed:", e));
+    return () => { cancelled = true; };
+  }, [audioUrl]);
+
+  useEffect(() => {
+    const element = containerRef.current;
+    if (!element) return;
+    const observer = new ResizeObserver(entries => setWidth(entries[0].contentRect.width));
+    observer.observe(element);
+    return () => observer.disconnect();
+  }, []);
+
+  // Speaker turns and the points where the slide changes
+  const { turns, slideStarts } = useMemo(() => {
+    const turns: { speaker: string, start: number, end: number }[] = [];
+    const slideStarts: { slide: number, time: number }[] = [];
+    segments.forEach((segment, i) => {
+      const previous = segments[i - 1];
+      const last = turns[turns.length - 1];
+      if (last && last.speaker === segment.speaker) last.end = segment.endTime;
+      else turns.push({ speaker: segment.speaker, start: segment.startTime, end: segment.endTime });
+      if (!previous || previous.slideIndex !== segment.slideIndex) {
+        slideStarts.push({ slide: segment.slideIndex + 1, time: segment.startTime });
+      }
+    });
+    return { turns, slideStarts };
+  }, [segments]);
+
+  const progress = duration > 0 ? Math.min(1, currentTime / duration) : 0;
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas || !peaks || width === 0) return;
+    const height = canvas.clientHeight;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = Math.round(width * ratio);
+    canvas.height = Math.round(height * ratio);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return;
+
+    ctx.scale(ratio, ratio);
+    ctx.clearRect(0, 0, width, height);
+    const barWidth = width / peaks.length;
+    const playedX = progress * width;
+    for (let i = 0; i < peaks.length; i++) {
+      const x = i * barWidth;
+      const barHeight = Math.max(1, peaks[i] * (height - 4));
+      ctx.fillStyle = x < playedX ? '#1A1A1A' : '#B0B0B0';
+      ctx.fillRect(x, (height - barHeight) / 2, Math.max(1, barWidth - 0.5), barHeight);
+    }
+  }, [peaks, width, progress]);
+
+  const seekToClientX = (clientX: number) => {
+    const rect = containerRef.current?.getBoundingClientRect();
+    if (!rect || duration <= 0) return;
+    onSeek(Math.min(1, Math.max(0, (clientX - rect.left) / rect.width)) * duration);
+  };
+
+  const percent = (time: number) => `${duration > 0 ? (time / duration) * 100 : 0}%`;
+
+  return (
+    <div className="flex items-center gap-3 px-4 py-2 bg-white">
+      <span className="font-mono text-xs font-bold w-10 text-right flex-shrink-0">{formatClock(currentTime)}</span>
+      <div
+        ref={containerRef}
+        className="relative flex-1 h-16 cursor-pointer select-none touch-none focus:outline-none focus:ring-4 focus:ring-bauhaus-yellow"
+        role="slider"
+        tabIndex={0}
+        aria-label={t.timelineLabel}
+        aria-valuemin={0}
+        aria-valuemax={Math.round(duration)}
+        aria-valuenow={Math.round(currentTime)}
+        aria-valuetext={formatClock(currentTime)}
+        onPointerDown={(e) => {
+          isDraggingRef.current = true;
+          e.currentTarget.setPointerCapture(e.pointerId);
+          seekToClientX(e.clientX);
+        }}
+        onPointerMove={(e) => { if (isDraggingRef.current) seekToClientX(e.clientX); }}
+        onPointerUp={(e) => {
+          isDraggingRef.current = false;
+          e.currentTarget.releasePointerCapture(e.pointerId);
+        }}
+        onKeyDown={(e) => {
+          if (e.key === 'ArrowLeft') { e.preventDefault(); onSeek(Math.max(0, currentTime - KEYBOARD_STEP_SEC)); }
+          if (e.key === 'ArrowRight') { e.preventDefault(); onSeek(Math.min(duration, currentTime + KEYBOARD_STEP_SEC)); }
+          if (e.key === 'Home') { e.preventDefault(); onSeek(0); }
+        }}
+      >
+        {/* Waveform */}
+        <canvas ref={canvasRef} className="absolute left-0 right-0 top-3 h-10 w-full" />
+        {!peaks && <div className="absolute left-0 right-0 top-[30px] h-px bg-gray-300"></div>}
+
+        {/* Slide boundaries */}
+        {slideStarts.map(({ slide, time }, i) => (
+          <div key={i} className="absolute top-0 h-[52px] border-l-2 border-bauhaus-black/60 pointer-events-none" style={{ left: percent(time) }}>
+            <span className="absolute -top-0.5 left-0.5 text-[9px] font-black leading-none">{slide}</span>
+          </div>
+        ))}
+
+        {/* Speaker turns */}
+        <div className="absolute left-0 right-0 bottom-0 h-2 bg-gray-100">
+          {turns.map((turn, i) => {
+            const seat = Math.max(0, getCastIndex(cast, turn.speaker));
+            return (
+              <div
+                key={i}
+                className="absolute top-0 h-full"
+                style={{
+                  left: percent(turn.start),
+                  width: percent(turn.end - turn.start),
+                  backgroundColor: SEAT_COLORS[seat % SEAT_COLORS.length].bg,
+                }}
+                title={getSpeakerName(cast, turn.speaker)}
+              />
+            );
+          })}
+        </div>
+
+        {/* Playhead */}
+        <div className="absolute top-0 bottom-0 w-0.5 bg-bauhaus-red pointer-events-none" style={{ left: `${progress * 100}%` }}></div>
+      </div>
+      <span className="font-mono text-xs font-bold w-10 flex-shrink-0 text-gray-500">{formatClock(duration)}</span>
+    </div>
+  );
+};
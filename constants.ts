@@ -33,8 +33,10 @@ The Host and Guest look at the screen together and point out key data points.
 * **Guide:** Says "Look at this number here," but avoids discussing colors/decoration. Discusses "the rapid growth this number represents."
 * **Reaction:** Reacts to the **impact of the facts** shown, rather than visual aesthetics.
 * **Context:** Listeners are viewing the slides. Share concrete info.`,
-    defaultVoice: 'Zephyr', // Host (Female, Bright)
-    secondVoice: 'Fenrir', // Guest (Male, Excited)
+    cast: [
+      { voice: 'Zephyr', role: 'ガイド役。注目すべき数字や主張を指し示す', roleEn: 'Guide who points out the key numbers and claims' }, // Female, Bright
+      { voice: 'Fenrir', role: 'ゲスト。示された事実のインパクトに反応し、質問する', roleEn: 'Guest who reacts to the impact of the facts and asks questions' }, // Male, Excited
+    ],
     color: 'yellow',
     icon: 'triangle',
     avatarSrc: 'https://www.gstatic.com/aistudio/starter-apps/synergy-intro/radio.jpeg',
@@ -68,12 +70,50 @@ The Host acts as a facilitator voicing listener questions, while the Expert deci
 * **Dialogue:** Host asks, Expert answers, or they exchange views.
 * **Tempo:** Intellectual and rhythmic banter.
 * **Context:** **No mention of design or layout.** Assuming listeners cannot see the slides, they passionately discuss the "meaning of the words" and the "importance of the arguments."`,
-    defaultVoice: 'Puck', // Host (Male-ish)
-    secondVoice: 'Kore', // Expert (Female-ish)
+    cast: [
+      { voice: 'Puck', role: '進行役。単に読み上げず「これってつまりどういうこと？」「なぜ重要なの？」と問う', roleEn: 'Facilitator who asks "What does this actually mean?" and "Why is this important?"' }, // Male-ish
+      { voice: 'Kore', role: '解説役。データの裏にある「企業の意図」「市場への影響」を推測して解説する', roleEn: 'Expert who infers the corporate intent and market impact behind the data' }, // Female-ish
+    ],
     color: 'blue',
     icon: 'square',
     avatarSrc: 'https://www.gstatic.com/aistudio/starter-apps/synergy-intro/podcaster.png',
     templateText: "" // Empty to trigger upload state
+  },
+  {
+    id: 'panel',
+    name: 'Panel Discussion (4 Voices)',
+    nameEn: 'Panel Discussion (4 Voices)',
+    description: `PANEL DISCUSSION (パネルディスカッション)
+# AUDIO PROFILE: Moderator & Panelists
+## "Many Angles" (多角的な視点)
+
+## The Scene: カンファレンスのパネルセッション
+モデレーター（Host）が、立場の異なる3人のパネリストに話を振りながら議論を進める。
+
+### HOSTING STYLE
+* **進行:** モデレーターは論点を整理し、パネリストに順番に意見を求める。
+* **対立と合意:** パネリストはそれぞれの立場から賛成・反対・補足を述べる。
+* **状況:** **デザインやレイアウトには一切触れない。** スライドの主張を多角的に検証する。`,
+    descriptionEn: `PANEL DISCUSSION
+# AUDIO PROFILE: Moderator & Panelists
+## "Many Angles"
+
+## The Scene: Conference Panel Session
+A moderator (Host) drives the discussion, inviting three panelists with different perspectives to weigh in.
+
+### HOSTING STYLE
+* **Moderation:** The moderator frames each point and asks panelists for their views in turn.
+* **Debate:** Panelists agree, push back or add nuance from their own standpoint.
+* **Context:** **No mention of design or layout.** The claims on each slide are examined from several angles.`,
+    cast: [
+      { voice: 'Charon', role: 'モデレーター。論点を整理し、各パネリストに話を振る', roleEn: 'Moderator who frames each point and invites the panelists to respond' }, // Male, Informative
+      { voice: 'Kore', role: '専門家。データを正確に読み解いて解説する', roleEn: 'Domain expert who explains the data precisely' }, // Female, Firm
+      { voice: 'Puck', role: '懐疑派。前提やリスクに疑問を投げかける', roleEn: 'Skeptic who questions assumptions and risks' }, // Male, Upbeat
+      { voice: 'Aoede', role: '現場目線の実務家。具体的な活用例を語る', roleEn: 'Practitioner who brings concrete, real-world examples' }, // Female, Breezy
+    ],
+    color: 'red',
+    icon: 'circle',
+    templateText: ""
   }
 ];
 
@@ -83,13 +123,21 @@ export const CUSTOM_STYLE: IntroStyle = {
   nameEn: 'Custom Host',
   description: '独自のスライド解説ペアを設定します。',
   descriptionEn: 'Configure your own slide commentary pair.',
-  defaultVoice: 'Puck',
-  secondVoice: 'Fenrir',
+  cast: [
+    { voice: 'Puck', role: 'メイン進行', roleEn: 'Main anchor' },
+    { voice: 'Fenrir', role: '解説役', roleEn: 'Commentator' },
+  ],
   color: 'white',
   icon: 'plus',
   templateText: "",
 };
 
+// Names given to each cast seat until the user renames them
+export const DEFAULT_CAST_NAMES: Record<'ja' | 'en', string[]> = {
+  ja: ['こはく', 'まき', 'あおい', 'れん'],
+  en: ['Alex', 'Sam', 'Jordan', 'Riley'],
+};
+
 export const SUPPORTED_LANGUAGES = [
   { name: '日本語 (日本)', code: 'ja-JP' },
   { name: '英語 (アメリカ)', code: 'en-US' },
@@ -106,8 +154,7 @@ export const TRANSLATIONS = {
     title: "Slide to Podcast",
     hostNameLabel: "Host Name",
     expertNameLabel: "Expert Name",
-    defaultHostName: "こはく",
-    defaultExpertName: "まき",
+    guestNameLabel: "Guest Name",
     uploadPdfTitle: "PDFをアップロード",
     selectFile: "ファイルを選択",
     or: "- OR -",
@@ -142,7 +189,7 @@ export const TRANSLATIONS = {
     notFound: "条件に合うボイスが見つかりません。",
     sysPromptTitle: "システムプロンプト",
     customSettings: "カスタムスタイルの設定",
-    voiceSettings: "ボイス設定 (2名)",
+    voiceSettings: "ボイス設定",
     hostRole: "Host (メイン進行)",
     expertRole: "Expert (解説役)",
     personaDesc: "プロンプトのペルソナに最適なボイスの組み合わせを選択してください。",
@@ -152,14 +199,181 @@ export const TRANSLATIONS = {
     sysHelper: "イントロダクション担当者のペルソナ、スタイル、ルールを定義してください。",
     cancel: "キャンセル",
     saveSettings: "設定を保存",
-    customCreate: "カスタム作成"
+    customCreate: "カスタム作成",
+    exportVideo: "動画",
+    videoExportTitle: "動画を書き出す",
+    videoFormat: "フォーマット",
+    burnSubtitles: "字幕を焼き込む",
+    startExport: "書き出す",
+    exporting: "書き出し中...",
+    errorVideoExport: "動画の書き出しに失敗しました: ",
+    exportSubtitles: "字幕",
+    subtitleExportTitle: "字幕を書き出す",
+    subtitleSpeakerNames: "話者名を付ける",
+    subtitleChapters: "スライドごとのチャプター (.vtt)",
+    chapterSlideLabel: "スライド",
+    audioOutputTitle: "音声出力",
+    audioOutputDesc: "保存時のファイル形式とビットレート。MP3 / Opus / AAC はブラウザ内でエンコードされ、タイトルや話者名のタグが付与されます。",
+    audioBitrate: "ビットレート",
+    encoding: "エンコード中...",
+    errorEncode: "音声のエンコードに失敗しました: ",
+    rateLimitTitle: "APIレート制限",
+    rateLimitDesc: "台本生成と音声合成の全リクエストで共有される上限です。429エラーが出る場合は値を下げてください。",
+    rateFreeTier: "無料枠",
+    ratePaidTier: "有料枠",
+    rateConcurrency: "同時実行数",
+    rateRpm: "リクエスト/分 (RPM)",
+    rateTpm: "トークン/分 (TPM)",
+    audioCacheTitle: "音声キャッシュ",
+    audioCacheDesc: "合成済みのセリフはブラウザに保存され、変更のない行は再生成されません。",
+    audioCacheClips: "件",
+    audioCacheClear: "キャッシュを削除",
+    segmentFailed: "セグメントの生成に失敗",
+    retrySegment: "再試行",
+    skipSegment: "スキップして続行",
+    generatingSegments: "音声生成中",
+    ttsProviderTitle: "音声エンジン",
+    ttsProviderDesc: "読み上げに使うエンジンを選択します。HTTP とトーン生成は API キーなしで動作します。",
+    ttsProviderLabel: "エンジン",
+    ttsProviderGemini: "Gemini TTS",
+    ttsProviderHttp: "HTTP サーバー（セルフホスト）",
+    ttsProviderMock: "トーン生成（オフライン・テスト用）",
+    ttsOffline: "オフライン",
+    ttsEndpoint: "エンドポイント URL",
+    ttsEndpointHint: "GET /voices で声の一覧、POST /synthesize（JSON: text, voice, sampleRate）で 24kHz 16bit モノラル PCM または WAV を返すサーバーに対応します。",
+    errorVoices: "声の一覧を取得できませんでした: ",
+    llmProviderTitle: "台本生成モデル",
+    llmProviderDesc: "PDF からの台本生成と演出に使う言語モデルを選択します。",
+    llmProviderGemini: "Gemini",
+    llmProviderOpenAi: "OpenAI 互換サーバー（ローカル）",
+    llmProviderFixture: "フィクスチャ（オフライン・テスト用）",
+    llmModel: "モデル名",
+    llmApiKey: "API キー（任意）",
+    llmFixtureUrl: "フィクスチャ URL（任意）",
+    llmOpenAiHint: "/chat/completions に対応したサーバー（Ollama、LM Studio、vLLM など）を指定します。PDF の代わりにスライドから抽出したテキストが送られます。",
+    llmFixtureHint: "未指定の場合は組み込みのサンプル台本を返します。指定した JSON（{ \"responses\": [{ \"task\": \"script\", \"text\": \"...\" }] }）の応答を記録順に再生します。",
+    addSpeaker: "話者を追加",
+    removeSpeaker: "話者を削除",
+    castRole: "役割",
+    castSpeaker: "話者",
+    defaultGuestRole: "ゲスト。自分の視点から意見や疑問を加える",
+    llmStructuredOutput: "構造化出力 (JSON)",
+    llmStructuredOutputHint: "台本をスライド・発言単位の JSON で生成し、マーカーや名前ラベルの解析に頼らず確実に読み込みます。JSON モードに対応していないサーバーではオフにしてください。",
+    diagnosticsTitle: "台本チェック",
+    diagnosticsErrors: "エラー",
+    diagnosticsWarnings: "警告",
+    diagnosticsLine: "行",
+    diagnosticsFix: "修正",
+    lintSlideOutOfRange: "資料にないスライド番号です: ",
+    lintSlideSkipped: "スライドが飛ばされています。挿入: ",
+    lintSlideOrder: "スライドの順番が前に戻っています: ",
+    lintUnlabelledLine: "話者ラベルがないため読み上げられません: ",
+    lintUnknownSpeaker: "キャストにいない話者です: ",
+    lintVisualDescription: "スライドの見た目についての説明です: ",
+    errorLintBlocked: "台本にエラーがあるため音声を生成できません。台本チェックを確認してください。",
+    regenerateSlides: "スライドを再生成",
+    regenerating: "再生成中...",
+    regenerateFrom: "再生成する最初のスライド",
+    regenerateTo: "再生成する最後のスライド",
+    errorRegenerate: "スライドの台本の再生成に失敗しました。",
+    errorExport: "プロジェクトの書き出しに失敗しました。",
+    library: "ライブラリ",
+    libraryTitle: "プロジェクトライブラリ",
+    libraryDesc: "作業内容はこのブラウザに自動保存されます。",
+    libraryEmpty: "保存されたプロジェクトはまだありません。",
+    libraryOpen: "開く",
+    libraryRename: "名前を変更",
+    libraryDuplicate: "複製",
+    libraryDelete: "削除",
+    libraryDeleteConfirm: "このプロジェクトを削除しますか？",
+    libraryCopySuffix: "のコピー",
+    libraryCurrent: "編集中",
+    librarySlides: "スライド",
+    libraryUpdated: "更新:",
+    librarySaved: "自動保存済み",
+    libraryError: "プロジェクトライブラリにアクセスできませんでした。",
+    undo: "元に戻す",
+    redo: "やり直す",
+    historyTitle: "履歴",
+    historyInitial: "開始",
+    historyOpen: "プロジェクトを開く",
+    historyEdit: "手動編集",
+    historyQuickFix: "クイック修正",
+    historyGenerate: "台本を生成",
+    historyRegenerate: "スライドを再生成",
+    historyTranscript: "会話を編集",
+    transcriptSlide: "スライド",
+    transcriptMoveToSlide: "発言のスライドを変更",
+    transcriptDrag: "ドラッグして並べ替え",
+    transcriptSplit: "分割",
+    transcriptSplitHint: "カーソル位置で発言を2つに分けます",
+    transcriptMerge: "結合",
+    transcriptMergeHint: "次の発言をこの発言につなげます",
+    transcriptInsert: "発言を追加",
+    transcriptDelete: "発言を削除",
+    transcriptEditHint: "クリックして編集",
+    transcriptPlaceholder: "発言内容を入力...",
+    transcriptSeekHint: "クリックでここから再生位置を移動、ダブルクリックで編集",
+    timelineLabel: "再生位置",
+    pauseTitle: "間（ポーズ）",
+    pauseDesc: "音声をつなぐときに発言の間へ挿入する無音の長さ（秒）です。",
+    pauseSameSpeaker: "同じ話者の発言の間",
+    pauseSpeakerChange: "話者の交代時",
+    pauseSlideChange: "スライドの切り替え時",
+    pauseReset: "既定値に戻す",
+    pauseCrossfade: "クロスフェード",
+    pauseMarkerHint: "台本の文の後に [PAUSE 2] のように書くと、その箇所だけ間の長さを秒単位で指定できます。",
+    masteringTitle: "マスタリング",
+    masteringDesc: "音声をつなぐ前に各クリップを整え、話者ごとの音量差をなくします。キャッシュ済みの音声には影響しません。",
+    masteringTrim: "クリップ前後の無音をカット",
+    masteringNormalize: "話者ごとにラウドネスを揃え、ピークを制限",
+    masteringTarget: "目標ラウドネス",
+    masteringCeiling: "トゥルーピーク上限 (dBTP)",
+    musicTitle: "音楽",
+    musicDesc: "手元の音声ファイルをイントロ・アウトロ・BGM・スライド切り替え時のジングルとして音声に合成します。BGMとジングルは発話中に自動で音量が下がります。",
+    musicIntro: "イントロ",
+    musicOutro: "アウトロ",
+    musicBed: "BGM（ループ）",
+    musicSting: "スライド切り替えジングル",
+    musicNone: "ファイルを選択...",
+    musicStyleJingle: "スタイルのジングル",
+    musicRemove: "削除",
+    musicJingleLevel: "ジングルの音量 (dB)",
+    musicBedLevel: "BGMの音量 (dB)",
+    musicDucking: "発話中の減衰量 (dB)",
+    pauseOverlapHint: "「なるほど」などの相づちは行頭に [OVERLAP] を付けると、前の発言の終わりに少し重ねて再生されます。",
+    transcriptInterjection: "相づち",
+    transcriptInterjectionHint: "前の発言に少し重ねて再生する",
+    glossary: "読み辞書",
+    glossaryTitle: "読み辞書",
+    glossaryDesc: "音声合成のときだけ語句を指定した読みに置き換えます。台本・字幕の表記はそのままです。",
+    glossaryProject: "このプロジェクト",
+    glossaryGlobal: "共通",
+    glossaryProjectHint: "このプロジェクトと一緒に保存されます。共通辞書と同じ語句があればこちらが優先されます。",
+    glossaryGlobalHint: "このブラウザのすべてのプロジェクトで使われます。",
+    glossaryEmpty: "登録された語句はありません",
+    glossaryTerm: "表記",
+    glossarySpoken: "読み",
+    glossaryLanguage: "言語",
+    glossaryTermPlaceholder: "例: 生成AI",
+    glossarySpokenPlaceholder: "例: せいせいエーアイ",
+    glossaryAdd: "語句を追加",
+    glossaryDelete: "削除",
+    spokenPreview: "読み上げ",
+    spokenPreviewHint: "数字・単位・日付の読み替えと読み辞書を適用した、実際に音声合成へ送られるテキストを表示",
+    transcriptDelivery: "演技",
+    transcriptDeliveryHint: "この発言の話し方（[DELIVERY ...]）。複数の指示や独自の指示はテキストで編集できます。語を *強調* するにはアスタリスクで囲みます",
+    speakingRate: "話す速さ",
+    voicePitch: "声の高さ",
+    semitones: "半音",
+    voiceShapingHint: "音声合成のあとで話者ごとに適用されます。変更しても音声の再取得は不要で、次回の生成から反映されます。",
+    musicUndecodable: "この音声ファイルは読み込めません。別の形式のファイルを選んでください。"
   },
   en: {
     title: "Slide to Podcast",
     hostNameLabel: "Host Name",
     expertNameLabel: "Expert Name",
-    defaultHostName: "Alex",
-    defaultExpertName: "Sam",
+    guestNameLabel: "Guest Name",
     uploadPdfTitle: "Upload PDF",
     selectFile: "Select File",
     or: "- OR -",
@@ -194,7 +408,7 @@ export const TRANSLATIONS = {
     notFound: "No voices found matching criteria.",
     sysPromptTitle: "System Prompt",
     customSettings: "Custom Style Settings",
-    voiceSettings: "Voice Settings (2 Speakers)",
+    voiceSettings: "Voice Settings",
     hostRole: "Host (Main Anchor)",
     expertRole: "Expert (Commentator)",
     personaDesc: "Select the best voice combination for the persona.",
@@ -204,6 +418,174 @@ export const TRANSLATIONS = {
     sysHelper: "Define the persona, style, and rules for the podcasters.",
     cancel: "Cancel",
     saveSettings: "Save Settings",
-    customCreate: "Create Custom"
+    customCreate: "Create Custom",
+    exportVideo: "Video",
+    videoExportTitle: "Export Video",
+    videoFormat: "Format",
+    burnSubtitles: "Burn in subtitles",
+    startExport: "Export",
+    exporting: "Exporting...",
+    errorVideoExport: "Failed to export video: ",
+    exportSubtitles: "CC",
+    subtitleExportTitle: "Export Subtitles",
+    subtitleSpeakerNames: "Prefix speaker names",
+    subtitleChapters: "Per-slide chapters (.vtt)",
+    chapterSlideLabel: "Slide",
+    audioOutputTitle: "Audio Output",
+    audioOutputDesc: "File format and bitrate used when saving. MP3 / Opus / AAC are encoded in the browser and tagged with the title and speaker names.",
+    audioBitrate: "Bitrate",
+    encoding: "Encoding...",
+    errorEncode: "Failed to encode audio: ",
+    rateLimitTitle: "API Rate Limits",
+    rateLimitDesc: "Shared by every script and speech request. Lower these if you keep hitting 429 errors.",
+    rateFreeTier: "Free Tier",
+    ratePaidTier: "Paid Tier",
+    rateConcurrency: "Concurrency",
+    rateRpm: "Requests / min (RPM)",
+    rateTpm: "Tokens / min (TPM)",
+    audioCacheTitle: "Audio Cache",
+    audioCacheDesc: "Synthesized lines are stored in the browser so unchanged lines are never re-generated.",
+    audioCacheClips: "clips",
+    audioCacheClear: "Clear Cache",
+    segmentFailed: "Segment failed",
+    retrySegment: "Retry",
+    skipSegment: "Skip & Continue",
+    generatingSegments: "Generating",
+    ttsProviderTitle: "Speech Engine",
+    ttsProviderDesc: "Choose the engine that voices the script. HTTP and the tone generator work without an API key.",
+    ttsProviderLabel: "Engine",
+    ttsProviderGemini: "Gemini TTS",
+    ttsProviderHttp: "HTTP server (self-hosted)",
+    ttsProviderMock: "Tone generator (offline, for testing)",
+    ttsOffline: "Offline",
+    ttsEndpoint: "Endpoint URL",
+    ttsEndpointHint: "Expects GET /voices for the voice list and POST /synthesize (JSON: text, voice, sampleRate) returning 24kHz 16-bit mono PCM or WAV.",
+    errorVoices: "Could not load voices: ",
+    llmProviderTitle: "Script Model",
+    llmProviderDesc: "Choose the language model that writes scripts from PDFs and dramatizes text.",
+    llmProviderGemini: "Gemini",
+    llmProviderOpenAi: "OpenAI-compatible server (local)",
+    llmProviderFixture: "Fixture (offline, for testing)",
+    llmModel: "Model Name",
+    llmApiKey: "API Key (optional)",
+    llmFixtureUrl: "Fixture URL (optional)",
+    llmOpenAiHint: "Any server exposing /chat/completions (Ollama, LM Studio, vLLM, ...). Text extracted from the slides is sent instead of the PDF.",
+    llmFixtureHint: "Without a URL, a built-in sample script is returned. Otherwise responses from the JSON file ({ \"responses\": [{ \"task\": \"script\", \"text\": \"...\" }] }) are replayed in recorded order.",
+    addSpeaker: "Add speaker",
+    removeSpeaker: "Remove speaker",
+    castRole: "Role",
+    castSpeaker: "Speaker",
+    defaultGuestRole: "Guest who adds their own perspective and questions",
+    llmStructuredOutput: "Structured output (JSON)",
+    llmStructuredOutputHint: "Generates the script as JSON (slides → turns) so it loads without relying on markers and name labels. Turn off for servers without JSON mode.",
+    diagnosticsTitle: "Script Check",
+    diagnosticsErrors: "errors",
+    diagnosticsWarnings: "warnings",
+    diagnosticsLine: "Line",
+    diagnosticsFix: "Fix",
+    lintSlideOutOfRange: "Slide number not in the PDF: ",
+    lintSlideSkipped: "Slide skipped. Insert: ",
+    lintSlideOrder: "Goes back to an earlier slide: ",
+    lintUnlabelledLine: "No speaker label, so this will not be read: ",
+    lintUnknownSpeaker: "Speaker not in the cast: ",
+    lintVisualDescription: "Describes how the slide looks: ",
+    errorLintBlocked: "The script has errors, so audio cannot be generated. See Script Check.",
+    regenerateSlides: "Regenerate Slides",
+    regenerating: "Regenerating...",
+    regenerateFrom: "First slide to regenerate",
+    regenerateTo: "Last slide to regenerate",
+    errorRegenerate: "Failed to regenerate the script for these slides.",
+    errorExport: "Failed to export the project.",
+    library: "Library",
+    libraryTitle: "Project Library",
+    libraryDesc: "Your work is saved automatically in this browser.",
+    libraryEmpty: "No saved projects yet.",
+    libraryOpen: "Open",
+    libraryRename: "Rename",
+    libraryDuplicate: "Duplicate",
+    libraryDelete: "Delete",
+    libraryDeleteConfirm: "Delete this project?",
+    libraryCopySuffix: "(copy)",
+    libraryCurrent: "Current",
+    librarySlides: "slides",
+    libraryUpdated: "Updated",
+    librarySaved: "Autosaved",
+    libraryError: "Could not access the project library.",
+    undo: "Undo",
+    redo: "Redo",
+    historyTitle: "History",
+    historyInitial: "Start",
+    historyOpen: "Opened project",
+    historyEdit: "Manual edit",
+    historyQuickFix: "Quick fix",
+    historyGenerate: "Generated script",
+    historyRegenerate: "Regenerated slides",
+    historyTranscript: "Transcript edit",
+    transcriptSlide: "Slide",
+    transcriptMoveToSlide: "Move turn to slide",
+    transcriptDrag: "Drag to reorder",
+    transcriptSplit: "Split",
+    transcriptSplitHint: "Split the turn in two at the cursor",
+    transcriptMerge: "Merge",
+    transcriptMergeHint: "Join the next turn onto this one",
+    transcriptInsert: "Add turn",
+    transcriptDelete: "Delete turn",
+    transcriptEditHint: "Click to edit",
+    transcriptPlaceholder: "Type what they say...",
+    transcriptSeekHint: "Click to seek here, double-click to edit",
+    timelineLabel: "Playback position",
+    pauseTitle: "Pauses",
+    pauseDesc: "Silence inserted between lines when the clips are stitched together, in seconds.",
+    pauseSameSpeaker: "Same speaker",
+    pauseSpeakerChange: "Speaker change",
+    pauseSlideChange: "Slide change",
+    pauseReset: "Reset",
+    pauseCrossfade: "Crossfade",
+    pauseMarkerHint: "Write [PAUSE 2] after a sentence in the script to set the pause at that point, in seconds.",
+    masteringTitle: "Mastering",
+    masteringDesc: "Cleans up each clip before stitching so every speaker sits at the same level. Cached clips are left untouched.",
+    masteringTrim: "Trim silence around each clip",
+    masteringNormalize: "Normalize loudness per speaker and limit peaks",
+    masteringTarget: "Target loudness",
+    masteringCeiling: "True-peak ceiling (dBTP)",
+    musicTitle: "Music",
+    musicDesc: "Mixes local audio files into the episode as an intro, outro, background bed and a sting at each slide change. The bed and stings duck automatically under speech.",
+    musicIntro: "Intro",
+    musicOutro: "Outro",
+    musicBed: "Background bed (loops)",
+    musicSting: "Slide-change sting",
+    musicNone: "Choose a file...",
+    musicStyleJingle: "Style jingle",
+    musicRemove: "Remove",
+    musicJingleLevel: "Jingle level (dB)",
+    musicBedLevel: "Bed level (dB)",
+    musicDucking: "Ducking under speech (dB)",
+    pauseOverlapHint: "Start a back-channel line (\"right\", \"mm-hm\") with [OVERLAP] to mix it slightly over the end of the line before.",
+    transcriptInterjection: "Overlap",
+    transcriptInterjectionHint: "Mix this turn slightly over the end of the previous one",
+    glossary: "Glossary",
+    glossaryTitle: "Pronunciation Glossary",
+    glossaryDesc: "Replaces terms with how they should be read, in speech synthesis only. The script and subtitles keep the original spelling.",
+    glossaryProject: "This project",
+    glossaryGlobal: "Global",
+    glossaryProjectHint: "Saved with this project. Overrides a global entry for the same term.",
+    glossaryGlobalHint: "Used by every project in this browser.",
+    glossaryEmpty: "No terms yet",
+    glossaryTerm: "Term",
+    glossarySpoken: "Spoken as",
+    glossaryLanguage: "Language",
+    glossaryTermPlaceholder: "e.g. SQL",
+    glossarySpokenPlaceholder: "e.g. sequel",
+    glossaryAdd: "Add term",
+    glossaryDelete: "Delete",
+    spokenPreview: "Spoken",
+    spokenPreviewHint: "Show the text actually sent to speech synthesis, with numbers, units and dates expanded and the glossary applied",
+    transcriptDelivery: "Delivery",
+    transcriptDeliveryHint: "How this turn is spoken ([DELIVERY ...]). Edit the text for several or custom directions; wrap a word in asterisks to *stress* it",
+    speakingRate: "Speaking Rate",
+    voicePitch: "Pitch",
+    semitones: "semitones",
+    voiceShapingHint: "Applied per speaker after synthesis, so changing it doesn't re-request any audio. Takes effect the next time audio is generated.",
+    musicUndecodable: "This audio file can't be decoded. Choose a file in another format."
   }
 };
\ No newline at end of file
@@ -0,0 +1,63 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { runInStore, STORES } from './idb';
+
+interface CachedAudioEntry {
+  key: string;
+  pcm: ArrayBuffer; // 16-bit mono PCM as returned by the TTS API
+  voice: string;
+  model: string;
+  createdAt: number;
+}
+
+/**
+ * Content address for a synthesized clip. Any change to the spoken text, voice, model or
+ * delivery instructions yields a new key, so stale audio is never reused.
+ */
+export const audioCacheKey = async (text: string, voice: string, model: string, instructions?: string): Promise<string> => {
+  // Undirected clips keep the keys they had before instructions existed
+  const data = new TextEncoder().encode(`${model}\u0000${voice}\u0000${text}${instructions ? `\u0000${instructions}` : ''}`);
+  const digest = await crypto.subtle.digest('SHA-256', data);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+// The cache is an optimization: storage failures (private mode, quota) fall through to the API
+export const getCachedAudio = async (key: string): Promise<Uint8Array | null> => {
+  try {
+    const entry = await runInStore<CachedAudioEntry | undefined>(STORES.audioCache, 'readonly', store => store.get(key));
+    return entry ? new Uint8Array(entry.pcm) : null;
+  } catch (e) {
+    console.warn("Audio cache read failed:", e);
+    return null;
+  }
+};
+
+export const putCachedAudio = async (key: string, pcm: Uint8Array, voice: string, model: string): Promise<void> => {
+  try {
+    const entry: CachedAudioEntry = {
+      key,
+      pcm: pcm.slice().buffer,
+      voice,
+      model,
+      createdAt: Date.now(),
+    };
+    await runInStore(STORES.audioCache, 'readwrite', store => store.put(entry));
+  } catch (e) {
+    console.warn("Audio cache write failed:", e);
+  }
+};
+
+export const countCachedAudio = async (): Promise<number> => {
+  try {
+    return await runInStore(STORES.audioCache, 'readonly', store => store.count());
+  } catch (e) {
+    console.warn("Audio cache count failed:", e);
+    return 0;
+  }
+};
+
+export const clearAudioCache = async (): Promise<void> => {
+  await runInStore(STORES.audioCache, 'readwrite', store => store.clear());
+};
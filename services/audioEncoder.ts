@@ -0,0 +1,139 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Output,
+  BufferTarget,
+  OutputFormat,
+  Mp3OutputFormat,
+  OggOutputFormat,
+  Mp4OutputFormat,
+  AudioBufferSource,
+  AudioCodec,
+  Quality,
+  canEncodeAudio,
+} from 'mediabunny';
+import { registerMp3Encoder } from '@mediabunny/mp3-encoder';
+
+export type AudioFormat = 'wav' | 'mp3' | 'opus' | 'aac';
+
+export interface AudioTags {
+  title: string;
+  artist: string; // Speaker names
+  album: string; // Style name
+  comment?: string;
+}
+
+export interface AudioEncodeOptions {
+  format: Exclude<AudioFormat, 'wav'>;
+  bitrate: number; // kbps
+  tags: AudioTags;
+}
+
+interface AudioFormatInfo {
+  label: string;
+  extension: string;
+  mimeType: string;
+  bitrates: number[]; // kbps, empty for uncompressed
+  defaultBitrate: number;
+}
+
+export const AUDIO_FORMATS: Record<AudioFormat, AudioFormatInfo> = {
+  wav: { label: 'WAV (PCM)', extension: 'wav', mimeType: 'audio/wav', bitrates: [], defaultBitrate: 0 },
+  mp3: { label: 'MP3', extension: 'mp3', mimeType: 'audio/mpeg', bitrates: [64, 96, 128, 160], defaultBitrate: 96 },
+  opus: { label: 'Ogg Opus', extension: 'opus', mimeType: 'audio/ogg', bitrates: [32, 48, 64, 96], defaultBitrate: 48 },
+  aac: { label: 'AAC (M4A)', extension: 'm4a', mimeType: 'audio/mp4', bitrates: [64, 96, 128, 192], defaultBitrate: 96 },
+};
+
+// Sample rate each encoder is fed with. Gemini TTS returns 24kHz mono, which LAME
+// handles natively (MPEG-2 Layer III); Opus and AAC encoders expect 48kHz.
+const ENCODER_SAMPLE_RATES: Record<AudioEncodeOptions['format'], number> = {
+  mp3: 24000,
+  opus: 48000,
+  aac: 48000,
+};
+
+const CODECS: Record<AudioEncodeOptions['format'], AudioCodec> = {
+  mp3: 'mp3',
+  opus: 'opus',
+  aac: 'aac',
+};
+
+let mp3EncoderRegistered = false;
+
+// Browsers don't ship an MP3 encoder, so fall back to the LAME WASM build once
+async function ensureMp3Encoder() {
+  if (mp3EncoderRegistered) return;
+  if (!(await canEncodeAudio('mp3'))) {
+    registerMp3Encoder();
+  }
+  mp3EncoderRegistered = true;
+}
+
+function createOutputFormat(format: AudioEncodeOptions['format']): OutputFormat {
+  switch (format) {
+    case 'mp3': return new Mp3OutputFormat();
+    case 'opus': return new OggOutputFormat();
+    case 'aac': return new Mp4OutputFormat({ fastStart: 'in-memory' });
+  }
+}
+
+// -- helper to resample audio to the encoder's sample rate --
+export async function resampleAudio(buffer: AudioBuffer, sampleRate: number): Promise<AudioBuffer> {
+  if (buffer.sampleRate === sampleRate) return buffer;
+  const length = Math.ceil(buffer.duration * sampleRate);
+  const offline = new OfflineAudioContext(buffer.numberOfChannels, length, sampleRate);
+  const source = offline.createBufferSource();
+  source.buffer = buffer;
+  source.connect(offline.destination);
+  source.start();
+  return offline.startRendering();
+}
+
+/**
+ * Encodes the stitched episode into a compressed, tagged audio file.
+ * Tags are written as ID3v2 (MP3), Vorbis comments (Ogg Opus) or iTunes atoms (M4A).
+ */
+export const encodeEpisodeAudio = async (
+  audio: AudioBuffer,
+  { format, bitrate, tags }: AudioEncodeOptions
+): Promise<Blob> => {
+  const codec = CODECS[format];
+  const sampleRate = ENCODER_SAMPLE_RATES[format];
+  const quality = new Quality({ bitrate: bitrate * 1000 });
+
+  if (format === 'mp3') await ensureMp3Encoder();
+  if (!(await canEncodeAudio(codec, { numberOfChannels: audio.numberOfChannels, sampleRate, quality }))) {
+    throw new Error(`This browser cannot encode ${AUDIO_FORMATS[format].label}.`);
+  }
+
+  const resampled = await resampleAudio(audio, sampleRate);
+
+  const output = new Output({ format: createOutputFormat(format), target: new BufferTarget() });
+  const source = new AudioBufferSource({ codec, quality });
+  output.addAudioTrack(source);
+  output.setMetadataTags({
+    title: tags.title,
+    artist: tags.artist,
+    album: tags.album,
+    comment: tags.comment,
+    genre: 'Podcast',
+    date: new Date(),
+  });
+
+  try {
+    await output.start();
+    await source.add(resampled);
+    source.close();
+    await output.finalize();
+  } catch (error) {
+    console.error("Error encoding audio:", error);
+    await output.cancel();
+    throw error;
+  }
+
+  const buffer = output.target.buffer;
+  if (!buffer) throw new Error("Audio encoding produced no data.");
+  return new Blob([buffer], { type: AUDIO_FORMATS[format].mimeType });
+};
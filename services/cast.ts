@@ -0,0 +1,87 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CastMember, IntroStyle } from '../types';
+import { DEFAULT_CAST_NAMES, TRANSLATIONS } from '../constants';
+
+export const MIN_CAST_SIZE = 2;
+export const MAX_CAST_SIZE = 4;
+
+// Bauhaus palette by cast seat, matching the live subtitle bubble in App.tsx
+export const SEAT_COLORS: { bg: string; fg: string }[] = [
+  { bg: '#2A6DB5', fg: '#FFFFFF' },
+  { bg: '#F2C94C', fg: '#1A1A1A' },
+  { bg: '#E94B35', fg: '#FFFFFF' },
+  { bg: '#1A1A1A', fg: '#FFFFFF' },
+];
+
+// Speaker ids by seat. The first two match the original labels, so "Host:" / "Expert:" scripts still parse.
+const CAST_IDS = ['Host', 'Expert', 'Guest', 'Panelist'];
+
+/** Builds the cast for a style, keeping the names, rates and pitches the user already chose for each seat. */
+export const castFromStyle = (style: IntroStyle, language: 'ja' | 'en', previous: CastMember[] = []): CastMember[] =>
+  style.cast.slice(0, MAX_CAST_SIZE).map((member, i) => ({
+    id: CAST_IDS[i],
+    name: previous[i]?.name ?? DEFAULT_CAST_NAMES[language][i],
+    role: language === 'en' ? member.roleEn : member.role,
+    voice: member.voice,
+    rate: previous[i]?.rate ?? member.rate,
+    pitch: previous[i]?.pitch ?? member.pitch,
+  }));
+
+/**
+ * Swaps names and roles that are still the defaults of the previous language for the
+ * new language's defaults; anything the user typed is left alone.
+ */
+export const localizeCast = (cast: CastMember[], style: IntroStyle, language: 'ja' | 'en'): CastMember[] => {
+  const from = language === 'en' ? 'ja' : 'en';
+  const roleFor = (lang: 'ja' | 'en', i: number) => {
+    const member = style.cast[i];
+    if (!member) return TRANSLATIONS[lang].defaultGuestRole;
+    return lang === 'en' ? member.roleEn : member.role;
+  };
+
+  return cast.map((member, i) => ({
+    ...member,
+    name: member.name === DEFAULT_CAST_NAMES[from][i] ? DEFAULT_CAST_NAMES[language][i] : member.name,
+    role: member.role === roleFor(from, i) ? roleFor(language, i) : member.role,
+  }));
+};
+
+/** Appends a guest seat, preferring a voice nobody else in the cast uses. */
+export const addCastMember = (cast: CastMember[], language: 'ja' | 'en', voiceNames: string[]): CastMember[] => {
+  if (cast.length >= MAX_CAST_SIZE) return cast;
+  const seat = cast.length;
+  const voice = voiceNames.find(name => !cast.some(m => m.voice === name)) ?? voiceNames[0] ?? '';
+  return [...cast, {
+    id: CAST_IDS[seat],
+    name: DEFAULT_CAST_NAMES[language][seat],
+    role: TRANSLATIONS[language].defaultGuestRole,
+    voice,
+  }];
+};
+
+/** Removes a seat; later members move up so ids stay aligned with seats. */
+export const removeCastMember = (cast: CastMember[], index: number): CastMember[] => {
+  if (cast.length <= MIN_CAST_SIZE) return cast;
+  return cast
+    .filter((_, i) => i !== index)
+    .map((member, i) => ({ ...member, id: CAST_IDS[i] }));
+};
+
+/** Where each speaker id goes when `removeCastMember` drops a seat; the removed id has no entry. */
+export const seatIdsAfterRemoval = (cast: CastMember[], index: number): Map<string, string> => {
+  if (cast.length <= MIN_CAST_SIZE) return new Map(cast.map(member => [member.id, member.id]));
+  return new Map(cast.filter((_, i) => i !== index).map((member, i) => [member.id, CAST_IDS[i]]));
+};
+
+export const getCastIndex = (cast: CastMember[], speakerId: string): number =>
+  cast.findIndex(m => m.id === speakerId);
+
+export const getSpeakerName = (cast: CastMember[], speakerId: string): string =>
+  cast.find(m => m.id === speakerId)?.name ?? speakerId;
+
+/** Display names keyed by speaker id, for subtitle and video exports. */
+export const getSpeakerNames = (cast: CastMember[]): Record<string, string> =>
+  Object.fromEntries(cast.map(m => [m.id, m.name]));
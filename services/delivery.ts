@@ -0,0 +1,56 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ScriptSegment } from '../types';
+
+// `[DELIVERY excited, slower]` anywhere in a turn directs the whole turn
+export const DELIVERY_MARKER = /\[DELIVERY[:\s]\s*([^\]]*)\]\s*/i;
+// `*word*` (or Markdown bold) stresses a word within its sentence
+export const EMPHASIS_MARKER = /\*{1,2}([^*\n]+?)\*{1,2}/g;
+
+// Cues suggested in the editor and to the script generator; any other wording works too
+export const DELIVERY_CUES = ['excited', 'calm', 'serious', 'warm', 'surprised', 'whispering', 'laughing', 'slower', 'faster'];
+
+export const parseDeliveryCues = (value: string): string[] =>
+  value.split(/[,、，]/).map(cue => cue.trim()).filter(Boolean);
+
+export const formatDeliveryMarker = (cues: string[]): string => `[DELIVERY ${cues.join(', ')}]`;
+
+/** Takes every delivery marker out of a turn. Returns the remaining content and the cues, in order. */
+export const extractDelivery = (content: string): { content: string, cues: string[] } => {
+  const cues: string[] = [];
+  const stripped = content.replace(new RegExp(DELIVERY_MARKER.source, 'gi'), (_, value: string) => {
+    cues.push(...parseDeliveryCues(value));
+    return '';
+  });
+  return { content: stripped.trim(), cues: [...new Set(cues)] };
+};
+
+/** Removes emphasis markers from a sentence, returning the plain text and the stressed words. */
+export const extractEmphasis = (sentence: string): { text: string, emphasis: string[] } => {
+  const emphasis: string[] = [];
+  const text = sentence.replace(EMPHASIS_MARKER, (_, word: string) => {
+    emphasis.push(word.trim());
+    return word;
+  });
+  return { text, emphasis };
+};
+
+/** Puts emphasis markers back around the first occurrence of each stressed word. */
+export const markEmphasis = (text: string, emphasis: string[] = []): string =>
+  emphasis.reduce((marked, word) => {
+    const index = marked.indexOf(word);
+    return index < 0 ? marked : `${marked.slice(0, index)}*${word}*${marked.slice(index + word.length)}`;
+  }, text);
+
+/**
+ * Speech-style instructions for the TTS request, e.g. `excited, slower; stress "record"`.
+ * Undefined for a line with no direction, so its request and cache key stay as before.
+ */
+export const buildDeliveryInstructions = (segment: Pick<ScriptSegment, 'delivery' | 'emphasis'>): string | undefined => {
+  const parts: string[] = [];
+  if (segment.delivery?.length) parts.push(segment.delivery.join(', '));
+  if (segment.emphasis?.length) parts.push(`stress ${segment.emphasis.map(word => `"${word}"`).join(', ')}`);
+  return parts.length > 0 ? parts.join('; ') : undefined;
+};
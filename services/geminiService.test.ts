@@ -0,0 +1,64 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { CastMember, ScriptSegment, TtsProvider } from '../types';
+import { apiScheduler, DEFAULT_RATE_LIMITS, RATE_LIMIT_PRESETS } from './rateLimiter';
+import { generateSequencedSpeech, SegmentGenerationError } from './geminiService';
+
+const cast: CastMember[] = [
+  { id: 'Host', name: 'Host', role: '', voice: 'Puck' },
+  { id: 'Expert', name: 'Expert', role: '', voice: 'Kore' },
+];
+
+// One segment per turn, alternating speakers so nothing merges
+const segments: ScriptSegment[] = Array.from({ length: 6 }, (_, i) => ({
+  id: `s${i}`,
+  slideIndex: 0,
+  speaker: cast[i % 2].id,
+  text: `Line ${i}.`,
+  startTime: i * 2,
+  endTime: i * 2 + 2,
+  turn: i,
+}));
+
+// Goes through the shared scheduler like Gemini TTS. The first request fails once the others
+// are queued behind it; they then see the batch's abort signal and throw before sending anything
+const failingProvider: TtsProvider = {
+  id: 'mock',
+  label: 'Failing',
+  model: 'failing',
+  capabilities: { sampleRate: 24000, multiSpeaker: false, offline: true },
+  listVoices: async () => [],
+  synthesize: (text, _voice, signal) => apiScheduler.run(1, () => {
+    if (signal?.aborted) throw new Error('Speech generation was aborted.');
+    if (text === 'Line 0.') return new Promise<Uint8Array>((_, reject) => setTimeout(() => reject(new Error('Server error')), 50));
+    return new Promise<Uint8Array>(() => {}); // Never reached
+  }),
+};
+
+describe('generateSequencedSpeech', () => {
+  beforeEach(() => {
+    vi.stubGlobal('window', { AudioContext: class { close() { return Promise.resolve(); } } });
+    // No IndexedDB here, so every cache lookup warns and falls through to the provider
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    // Free-tier concurrency, without waiting on the per-minute budget
+    apiScheduler.configure({ ...RATE_LIMIT_PRESETS.free, requestsPerMinute: 1000 });
+  });
+
+  afterEach(() => {
+    apiScheduler.configure(DEFAULT_RATE_LIMITS);
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('settles with a SegmentGenerationError when more segments are queued than run at once', async () => {
+    const generation = generateSequencedSpeech(segments, cast, { provider: failingProvider });
+
+    const error = await generation.catch(e => e);
+    expect(error).toBeInstanceOf(SegmentGenerationError);
+    expect((error as SegmentGenerationError).segment.text).toBe('Line 0.');
+  });
+});
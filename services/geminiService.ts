@@ -3,11 +3,30 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 import { GoogleGenAI, Modality } from "@google/genai";
-import { ScriptSegment } from "../types";
+import { CastMember, LlmProvider, MasteringSettings, PauseSettings, PronunciationEntry, ScriptSection, ScriptSegment, StructuredScript, TtsProvider } from "../types";
+import { ALL_VOICES } from "../voices";
+import { apiScheduler, estimateTokens } from "./rateLimiter";
+import { audioCacheKey, getCachedAudio, putCachedAudio } from "./audioCache";
+import { resampleAudio } from "./audioEncoder";
+import { extractSlideText } from "./pdfText";
+import { parseStructuredScript, scriptResponseSchema } from "./structuredScript";
+import { clampToSlideRange } from "./scriptParser";
+import { DEFAULT_PAUSE_SETTINGS, getPauseBetween } from "./pauses";
+import { DEFAULT_MASTERING_SETTINGS, limitTruePeak, masterClips, measureLoudness } from "./mastering";
+import { EpisodeMusic, hasMusic, mixEpisodeMusic } from "./musicMixer";
+import { toSpokenText } from "./textNormalizer";
+import { buildDeliveryInstructions, DELIVERY_CUES } from "./delivery";
+import { hasVoiceShaping, shapeVoice } from "./voiceShaping";
 
 // Initialize Gemini Client
 const getClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
 
+const TTS_MODEL = "gemini-2.5-flash-preview-tts";
+export const DEFAULT_SCRIPT_MODEL = "gemini-2.5-flash";
+
+// Gemini bills each PDF page at ~258 input tokens; assume a typical 30-page deck
+const PDF_TOKEN_ESTIMATE = 258 * 30;
+
 // Audio Decoding Helper
 function decode(base64: string) {
   const binaryString = atob(base64);
@@ -86,48 +105,94 @@ export interface GeneratedAudio {
   rawData: Uint8Array;
 }
 
-// -- helper to concatenate buffers --
-function concatenateAudioBuffers(buffers: AudioBuffer[], context: AudioContext): AudioBuffer {
-    const totalLength = buffers.reduce((acc, b) => acc + b.length, 0);
+// In-memory store of clips finished during a generation run, keyed by voice, text and delivery.
+// Survives a failed run so a retry only re-requests what is missing.
+export type SpeechCheckpoint = Map<string, GeneratedAudio>;
+
+export interface SequencedSpeechOptions {
+  provider?: TtsProvider; // Defaults to Gemini TTS
+  checkpoint?: SpeechCheckpoint;
+  skipSegmentKeys?: ReadonlySet<string>; // Segments the user chose to leave out (see getSegmentKey)
+  pauses?: PauseSettings; // Silence between clips; defaults to DEFAULT_PAUSE_SETTINGS
+  mastering?: MasteringSettings; // Defaults to DEFAULT_MASTERING_SETTINGS
+  music?: EpisodeMusic; // Jingles and background music mixed around the voice
+  pronunciations?: PronunciationEntry[]; // Applied to the text sent to the provider only
+  language?: 'ja' | 'en'; // Selects the number and date reading rules; defaults to 'ja'
+  onProgress?: (completed: number, total: number) => void;
+}
+
+/**
+ * Thrown by generateSequencedSpeech when a segment still fails after retries.
+ * Identifies the segment so the UI can offer to retry or skip it.
+ */
+export class SegmentGenerationError extends Error {
+  constructor(
+    public readonly segment: ScriptSegment,
+    public readonly segmentKey: string,
+    public readonly segmentNumber: number, // 1-based position among the segments being synthesized
+    public readonly totalSegments: number,
+    public readonly originalError: unknown
+  ) {
+    super(originalError instanceof Error ? originalError.message : String(originalError));
+    this.name = 'SegmentGenerationError';
+  }
+}
+
+/** Stable identity for a merged segment; unlike `id`, it survives re-parsing the script. */
+export const getSegmentKey = (segment: ScriptSegment): string =>
+  `${segment.slideIndex}|${segment.speaker}|${segment.text.trim()}`;
+
+// -- helper to mix clips in at starts[i] samples, fading each edge over fadeLength samples --
+// Clips that overlap are summed, so neighbouring fades form a crossfade.
+function concatenateClips(clips: Float32Array[], starts: number[], fadeLength: number, context: AudioContext): AudioBuffer {
+    const totalLength = clips.reduce((acc, clip, i) => Math.max(acc, starts[i] + clip.length), 0);
     const result = context.createBuffer(1, totalLength, 24000); // 24000 is typical for Gemini TTS
     
-    let offset = 0;
     const outputData = result.getChannelData(0);
     
-    for (const buf of buffers) {
-        const inputData = buf.getChannelData(0);
-        outputData.set(inputData, offset);
-        offset += buf.length;
-    }
+    clips.forEach((clip, i) => {
+        const fade = Math.min(fadeLength, Math.floor(clip.length / 2));
+        const start = starts[i];
+        for (let j = 0; j < clip.length; j++) {
+            const edge = Math.min(j + 1, clip.length - j);
+            outputData[start + j] += edge < fade ? clip[j] * (edge / fade) : clip[j];
+        }
+    });
     
     return result;
 }
 
 const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-// -- Internal helper for single speaker generation --
-async function generateSingleSpeakerAudio(text: string, voiceName: string): Promise<GeneratedAudio> {
+// -- Internal helper for single speaker generation; resolves with 24kHz 16-bit PCM --
+async function generateSingleSpeakerAudio(text: string, voiceName: string, signal?: AbortSignal, instructions?: string): Promise<Uint8Array> {
     const ai = getClient();
     
     // Wrap text in a directive to ensure the model reads it instead of replying to it
-    const promptText = `Please read the following text exactly as written: "${text}"`;
+    const promptText = instructions
+        ? `Please read the following text exactly as written, in this style (${instructions}): "${text}"`
+        : `Please read the following text exactly as written: "${text}"`;
 
     const maxRetries = 10;
     let attempt = 0;
 
     while (true) {
         try {
-            const response = await ai.models.generateContent({
-                model: "gemini-2.5-flash-preview-tts",
-                contents: [{ parts: [{ text: promptText }] }],
-                config: {
-                    responseModalities: [Modality.AUDIO], 
-                    speechConfig: {
-                        voiceConfig: {
-                            prebuiltVoiceConfig: { voiceName: voiceName }
-                        }
+            const response = await apiScheduler.run(estimateTokens(promptText), async () => {
+                // Don't spend quota on a request whose batch has already failed
+                if (signal?.aborted) throw new Error("Speech generation was aborted.");
+                return ai.models.generateContent({
+                    model: TTS_MODEL,
+                    contents: [{ parts: [{ text: promptText }] }],
+                    config: {
+                        responseModalities: [Modality.AUDIO], 
+                        speechConfig: {
+                            voiceConfig: {
+                                prebuiltVoiceConfig: { voiceName: voiceName }
+                            }
+                        },
                     },
-                },
+                });
             });
 
             const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
@@ -141,14 +206,7 @@ async function generateSingleSpeakerAudio(text: string, voiceName: string): Prom
                 throw new Error("No audio data returned from API.");
             }
 
-            const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-            try {
-                const audioBytes = decode(base64Audio);
-                const audioBuffer = await decodeAudioData(audioBytes, outputAudioContext, 24000, 1);
-                return { buffer: audioBuffer, rawData: audioBytes };
-            } finally {
-                await outputAudioContext.close();
-            }
+            return decode(base64Audio);
         } catch (error: any) {
             attempt++;
             
@@ -163,11 +221,16 @@ async function generateSingleSpeakerAudio(text: string, voiceName: string): Prom
             
             const isServerBusy = error.status === 503 || error.status === 500;
 
-            if ((isRateLimit || isServerBusy) && attempt <= maxRetries) {
+            if ((isRateLimit || isServerBusy) && attempt <= maxRetries && !signal?.aborted) {
                 // Exponential backoff
                 const delay = Math.pow(2, attempt) * 1000 + (Math.random() * 1000); 
                 console.warn(`API Error (${isRateLimit ? 'Rate Limit' : 'Server Error'}). Retrying in ${Math.round(delay)}ms... (Attempt ${attempt}/${maxRetries})`);
-                await sleep(delay);
+                if (isRateLimit) {
+                    // Quota is shared, so hold every queued request rather than just this one
+                    apiScheduler.pause(delay);
+                } else {
+                    await sleep(delay);
+                }
                 continue;
             }
             
@@ -176,6 +239,68 @@ async function generateSingleSpeakerAudio(text: string, voiceName: string): Prom
     }
 }
 
+export const geminiTtsProvider: TtsProvider = {
+    id: 'gemini',
+    label: 'Gemini',
+    model: TTS_MODEL,
+    capabilities: { sampleRate: 24000, multiSpeaker: true, offline: false },
+    listVoices: async () => ALL_VOICES,
+    synthesize: generateSingleSpeakerAudio,
+};
+
+function audioBufferToPcm16(buffer: AudioBuffer): Uint8Array {
+    const channelData = buffer.getChannelData(0);
+    const rawData = new Int16Array(channelData.length);
+    for (let i = 0; i < channelData.length; i++) {
+        // Float to 16-bit PCM
+        const s = Math.max(-1, Math.min(1, channelData[i]));
+        rawData[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+    }
+    return new Uint8Array(rawData.buffer);
+}
+
+// Decodes provider PCM and brings it to the 24kHz the rest of the pipeline assumes
+async function pcmToGeneratedAudio(pcm: Uint8Array, sampleRate: number): Promise<GeneratedAudio> {
+    const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate });
+    try {
+        const audioBuffer = await decodeAudioData(pcm, outputAudioContext, sampleRate, 1);
+        if (sampleRate === 24000) return { buffer: audioBuffer, rawData: pcm };
+        const resampled = await resampleAudio(audioBuffer, 24000);
+        return { buffer: resampled, rawData: audioBufferToPcm16(resampled) };
+    } finally {
+        await outputAudioContext.close();
+    }
+}
+
+// -- Cache-aware wrapper: reuses previously synthesized clips for unchanged text --
+async function synthesizeWithCache(
+    provider: TtsProvider,
+    text: string,
+    voiceName: string,
+    instructions: string | undefined,
+    signal?: AbortSignal,
+    checkpoint?: SpeechCheckpoint
+): Promise<GeneratedAudio> {
+    const checkpointKey = `${provider.model}\u0000${voiceName}\u0000${text}\u0000${instructions ?? ''}`;
+    const checkpointed = checkpoint?.get(checkpointKey);
+    if (checkpointed) return checkpointed;
+
+    const { sampleRate } = provider.capabilities;
+    const key = await audioCacheKey(text, voiceName, provider.model, instructions);
+    const cachedPcm = await getCachedAudio(key);
+
+    if (cachedPcm) {
+        return pcmToGeneratedAudio(cachedPcm, sampleRate);
+    }
+
+    if (signal?.aborted) throw new Error("Speech generation was aborted.");
+    const pcm = await provider.synthesize(text, voiceName, signal, instructions);
+    const audio = await pcmToGeneratedAudio(pcm, sampleRate);
+    checkpoint?.set(checkpointKey, audio);
+    await putCachedAudio(key, pcm, voiceName, provider.model);
+    return audio;
+}
+
 export const generateSpeech = async (
   text: string, 
   hostVoice: string,
@@ -199,14 +324,14 @@ export const generateSpeech = async (
   };
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash-preview-tts",
+    const response = await apiScheduler.run(estimateTokens(inputContents), () => ai.models.generateContent({
+      model: TTS_MODEL,
       contents: [{ parts: [{ text: inputContents }] }],
       config: {
         responseModalities: [Modality.AUDIO],
         speechConfig: voiceConfig,
       },
-    });
+    }));
 
     const base64Audio = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!base64Audio) throw new Error("No audio data returned.");
@@ -228,12 +353,17 @@ export const generateSpeech = async (
 /**
  * Generates audio segment by segment to ensure perfect synchronization.
  * Optimized to merge consecutive segments by the same speaker to reduce API calls.
+ * Segments are synthesized concurrently through the shared scheduler and stitched back in script order.
+ * Clips already in the local audio cache are reused, so edits only re-synthesize changed lines.
+ * If a segment fails, segments already in flight still finish into the checkpoint before
+ * a SegmentGenerationError is thrown.
  */
 export const generateSequencedSpeech = async (
     rawSegments: ScriptSegment[],
-    hostVoice: string,
-    expertVoice: string
+    cast: CastMember[],
+    options: SequencedSpeechOptions = {}
 ): Promise<{ audio: GeneratedAudio, segments: ScriptSegment[] }> => {
+    const { provider = geminiTtsProvider, checkpoint, skipSegmentKeys, pauses = DEFAULT_PAUSE_SETTINGS, mastering = DEFAULT_MASTERING_SETTINGS, music, pronunciations = [], language = 'ja', onProgress } = options;
     
     // 1. Merge consecutive segments from same speaker within same slide
     // This reduces the number of API calls significantly, preventing rate limits
@@ -242,9 +372,12 @@ export const generateSequencedSpeech = async (
         let current = { ...rawSegments[0] };
         for (let i = 1; i < rawSegments.length; i++) {
             const next = rawSegments[i];
-            // Merge if speaker AND slide index are the same
-            if (next.speaker === current.speaker && next.slideIndex === current.slideIndex) {
+            // Merge if speaker, slide index and line are the same, and no pause marker comes between
+            if (next.speaker === current.speaker && next.slideIndex === current.slideIndex &&
+                next.turn === current.turn && current.pauseAfter === undefined) {
                 current.text += " " + next.text;
+                current.pauseAfter = next.pauseAfter;
+                if (next.emphasis) current.emphasis = [...(current.emphasis ?? []), ...next.emphasis];
                 // We don't update ID as the new segment represents the block
             } else {
                 mergedSegments.push(current);
@@ -255,68 +388,113 @@ export const generateSequencedSpeech = async (
     }
 
     const outputAudioContext = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
-    const audioBuffers: AudioBuffer[] = [];
+    const starts: number[] = [];
     const finalSegments: ScriptSegment[] = [];
-    
-    let currentOffset = 0;
+    const abortController = new AbortController();
 
     try {
-        // Generate sequentially
-        for (const segment of mergedSegments) {
-            const speaker = segment.speaker;
+        const speakable = mergedSegments.filter(segment =>
+            segment.text.trim() && !skipSegmentKeys?.has(getSegmentKey(segment))
+        );
+        let completed = 0;
+        let firstFailure: { index: number, error: unknown } | null = null;
+        onProgress?.(0, speakable.length);
+
+        // Generate concurrently; the scheduler enforces concurrency and RPM/TPM limits
+        const settled = await Promise.allSettled(speakable.map(async (segment, index) => {
             const text = segment.text.trim();
-            if (!text) continue;
-
-            const voiceName = speaker === 'Host' ? hostVoice : expertVoice;
-            
-            // Add pacing delay to avoid hitting rate limits (e.g. 15 RPM)
-            // Even with merging, we want to be gentle.
-            if (audioBuffers.length > 0) {
-                 await sleep(1000); 
-            }
-
             try {
-                const audioResult = await generateSingleSpeakerAudio(text, voiceName);
-                
-                const duration = audioResult.buffer.duration;
-                audioBuffers.push(audioResult.buffer);
-                
-                finalSegments.push({
-                    ...segment,
-                    startTime: currentOffset,
-                    endTime: currentOffset + duration
-                });
-                
-                currentOffset += duration;
+                const voiceName = cast.find(member => member.id === segment.speaker)?.voice;
+                if (!voiceName) throw new Error(`No voice assigned to speaker "${segment.speaker}".`);
+                // Segment text stays as written; only the request carries the spoken forms
+                const spokenText = toSpokenText(text, pronunciations, language);
+                const instructions = buildDeliveryInstructions(segment);
+                const result = await synthesizeWithCache(provider, spokenText, voiceName, instructions, abortController.signal, checkpoint);
+                onProgress?.(++completed, speakable.length);
+                return result;
             } catch (e) {
-                console.error(`Failed to generate audio for segment: "${text.substring(0, 20)}..."`, e);
-                // Fail gracefully? For now, throw to alert user.
+                if (!abortController.signal.aborted) {
+                    console.error(`Failed to generate audio for segment: "${text.substring(0, 20)}..."`, e);
+                    firstFailure = { index, error: e };
+                    // Stop queued requests; in-flight ones still land in the checkpoint
+                    abortController.abort();
+                }
                 throw e;
             }
+        }));
+
+        const failure = firstFailure as { index: number, error: unknown } | null;
+        if (failure) {
+            const segment = speakable[failure.index];
+            throw new SegmentGenerationError(segment, getSegmentKey(segment), failure.index + 1, speakable.length, failure.error);
         }
 
-        if (audioBuffers.length === 0) {
+        const results = settled.map(r => (r as PromiseFulfilledResult<GeneratedAudio>).value);
+
+        // Apply each speaker's rate and pitch, then trim and level the clips;
+        // timings below follow the processed lengths
+        const sampleRate = 24000;
+        const shaped = results.map((r, i) => {
+            const member = cast.find(m => m.id === speakable[i].speaker);
+            const samples = r.buffer.getChannelData(0);
+            return member && hasVoiceShaping(member) ? shapeVoice(samples, sampleRate, member) : samples;
+        });
+        const clips = masterClips(
+            shaped,
+            speakable.map(segment => segment.speaker),
+            sampleRate,
+            mastering
+        );
+
+        // Reassemble in script order, with the pauses in between, so timings stay correct.
+        // Each clip overlaps the one before by the crossfade; interjections overlap further.
+        const fadeLength = Math.round(pauses.crossfade * sampleRate);
+        let previousEnd = 0;
+        speakable.forEach((segment, i) => {
+            // Whole samples, so segment times match the stitched audio exactly
+            const gap = i > 0 ? Math.round(getPauseBetween(speakable[i - 1], segment, pauses) * sampleRate) - fadeLength : 0;
+            // Never reach back past the start of the previous clip
+            const start = Math.max(i > 0 ? starts[i - 1] : 0, previousEnd + gap);
+            starts.push(start);
+            previousEnd = Math.max(previousEnd, start + clips[i].length);
+            
+            finalSegments.push({
+                ...segment,
+                startTime: start / sampleRate,
+                endTime: (start + clips[i].length) / sampleRate
+            });
+        });
+
+        if (clips.length === 0) {
             throw new Error("No audio generated.");
         }
 
         // Stitch together
-        const combinedBuffer = concatenateAudioBuffers(audioBuffers, outputAudioContext);
-        
-        // Convert back to raw Uint8Array for WAV creation
-        const channelData = combinedBuffer.getChannelData(0);
-        const rawData = new Int16Array(channelData.length);
-        for (let i = 0; i < channelData.length; i++) {
-            // Float to 16-bit PCM
-            const s = Math.max(-1, Math.min(1, channelData[i]));
-            rawData[i] = s < 0 ? s * 0x8000 : s * 0x7FFF;
+        let combinedBuffer = concatenateClips(clips, starts, fadeLength, outputAudioContext);
+        let timedSegments = finalSegments;
+
+        // Music is levelled against the speech, so measure it when it wasn't normalized
+        if (music && hasMusic(music.tracks)) {
+            const measured = mastering.normalizeLoudness
+                ? mastering.targetLufs
+                : measureLoudness([combinedBuffer.getChannelData(0)], sampleRate);
+            const speechLufs = Number.isFinite(measured) ? measured : mastering.targetLufs;
+            const mixed = await mixEpisodeMusic(combinedBuffer, finalSegments, music, speechLufs);
+            combinedBuffer = mixed.buffer;
+            timedSegments = mixed.segments;
+        }
+
+        if (mastering.normalizeLoudness) {
+            limitTruePeak(combinedBuffer.getChannelData(0), sampleRate, mastering.truePeakCeiling);
         }
         
         return {
             audio: {
                 buffer: combinedBuffer,
-                rawData: new Uint8Array(rawData.buffer)
+                // Raw PCM for WAV creation
+                rawData: audioBufferToPcm16(combinedBuffer)
             },
-            segments: finalSegments
+            segments: timedSegments
         };
 
     } finally {
@@ -324,41 +502,117 @@ export const generateSequencedSpeech = async (
     }
 };
 
-export const generateScriptFromPDF = async (
-  pdfBase64: string, 
-  personalityDescription: string,
-  hostName: string,
-  expertName: string,
-  language: 'ja' | 'en' = 'ja'
-): Promise<string> => {
-  const ai = getClient();
-  
-  const jpPrompt = `
-    あなたは2人のポッドキャストパーソナリティ（HostとExpert）のプロデューサーです。
-    添付されたPDF（スライド資料）を元に、この2人が内容について語り合うポッドキャストの台本を作成してください。
-    
-    【設定】
-    ${personalityDescription}
+export const createGeminiLlmProvider = (model: string = DEFAULT_SCRIPT_MODEL): LlmProvider => ({
+  id: 'gemini',
+  label: 'Gemini',
+  model,
+  capabilities: { pdfInput: true, offline: false },
 
-    【重要: キャラクター名】
-    - Hostの役名は「${hostName}」です。
-    - Expertの役名は「${expertName}」です。
-    - 台本内の会話で相手を呼ぶときは、必ず「${hostName}さん」「${expertName}さん」と呼んでください。
-    
-    【台本のフォーマット】
-    各発言の冒頭には、必ず話者の名前をラベルとして付けてください。
+  async generateText({ prompt, pdfBase64, responseSchema }, signal) {
+    const ai = getClient();
+    const tokens = estimateTokens(prompt) + (pdfBase64 ? PDF_TOKEN_ESTIMATE : 0);
+    const response = await apiScheduler.run(tokens, () => ai.models.generateContent({
+      model,
+      contents: pdfBase64
+        ? {
+            parts: [
+              { inlineData: { data: pdfBase64, mimeType: 'application/pdf' } },
+              { text: prompt },
+            ],
+          }
+        : prompt,
+      config: {
+        abortSignal: signal,
+        ...(responseSchema ? { responseMimeType: 'application/json', responseJsonSchema: responseSchema } : {}),
+      },
+    }));
+    return response.text ?? '';
+  },
+});
+
+export const geminiLlmProvider = createGeminiLlmProvider();
+
+// Both generation modes share one prompt; only the output format section differs.
+// With a section, the model rewrites just that slide range and sees the dialogue around it.
+async function buildScriptPrompt(
+  pdfBase64: string,
+  personalityDescription: string,
+  cast: CastMember[],
+  language: 'ja' | 'en',
+  format: 'text' | 'json',
+  provider: LlmProvider,
+  section?: ScriptSection
+): Promise<string> {
+  const [host, second] = cast;
+  const jpCastList = cast.map(m => `    - 「${m.name}」: ${m.role}`).join('\n');
+  const enCastList = cast.map(m => `    - "${m.name}": ${m.role}`).join('\n');
+
+  const jpFormat = format === 'json'
+    ? `    【出力形式】
+    指定された JSON スキーマに従って出力してください。
+    - \`slides\`: 話題にするスライドごとに1要素。\`slide\` はページ番号（1, 2...）です。
+    - \`turns\`: そのスライドについての発言を話す順に並べたもの。\`speaker\` は上記の名前のいずれか、\`text\` は発言内容です（名前ラベルは含めないでください）。`
+    : `    【台本のフォーマット】
+    各発言の冒頭には、必ず話者の名前をラベルとして付けてください。上記以外の名前は使わないでください。
     例:
-    ${hostName}: こんにちは、${expertName}さん。
-    ${expertName}: はい、${hostName}さん。今日は...
+    ${host.name}: こんにちは、${second.name}さん。
+    ${second.name}: はい、${host.name}さん。今日は...
 
     【構造とマーカー（重要）】
     **話している対象のスライドが変わるタイミングで、必ず \`[SLIDE X]\` （Xはページ番号1, 2...）というマーカーを挿入してください。**
     例:
     [SLIDE 1]
-    ${hostName}: こんにちは、今回のテーマはこちらです。
-    ${expertName}: 面白そうですね。
+    ${host.name}: こんにちは、今回のテーマはこちらです。
+    ${second.name}: 面白そうですね。
     [SLIDE 2]
-    ${hostName}: さて、まずは現状の課題から見ていきましょう。
+    ${host.name}: さて、まずは現状の課題から見ていきましょう。`;
+
+  const enFormat = format === 'json'
+    ? `    【Output Format】
+    Respond with JSON following the given schema.
+    - \`slides\`: one entry per slide discussed. \`slide\` is the page number (1, 2...).
+    - \`turns\`: the lines spoken about that slide, in order. \`speaker\` is one of the names above and \`text\` is what they say (without a name label).`
+    : `    【Script Format】
+    Start each line with the speaker's name as a label. Do not use any other names.
+    Example:
+    ${host.name}: Hello, ${second.name}.
+    ${second.name}: Hi, ${host.name}. Today we are discussing...
+
+    【Structure and Markers (CRITICAL)】
+    **Insert the marker \`[SLIDE X]\` (where X is page number 1, 2...) whenever the topic shifts to a new slide.**
+    Example:
+    [SLIDE 1]
+    ${host.name}: Hello, here is our theme today.
+    ${second.name}: Looks interesting.
+    [SLIDE 2]
+    ${host.name}: So, let's look at the current challenges.`;
+
+  // Optional directions the speech synthesizer turns into delivery (see services/delivery.ts)
+  const cueList = DELIVERY_CUES.join(', ');
+  const jpDelivery = `    【演技指示（任意）】
+    - ${format === 'json' ? `声のトーンや話す速さを指定したい発言には \`delivery\` に英語で指示を書いてください（カンマ区切り。例: ${cueList}）。` : `声のトーンや話す速さを指定したい発言には、名前ラベルの直後に \`[DELIVERY excited, slower]\` のように英語で指示を付けてください（例: ${cueList}）。`}
+    - 特に強調したい語は \`*語*\` のようにアスタリスクで囲んでください。
+    - どちらも要所だけに使い、多用しないでください。`;
+  const enDelivery = `    【Delivery Directions (Optional)】
+    - ${format === 'json' ? `To set the tone or pace of a line, put a comma-separated direction in \`delivery\` (e.g. ${cueList}).` : `To set the tone or pace of a line, add a direction such as \`[DELIVERY excited, slower]\` right after the name label (e.g. ${cueList}).`}
+    - Wrap a word that needs stress in asterisks, like \`*this*\`.
+    - Use both sparingly, only where they matter.`;
+
+  const jpPrompt = `
+    あなたは${cast.length}人のポッドキャストパーソナリティのプロデューサーです。
+    添付されたPDF（スライド資料）を元に、この${cast.length}人が内容について語り合うポッドキャストの台本を作成してください。
+    
+    【設定】
+    ${personalityDescription}
+
+    【重要: キャラクター名と役割】
+${jpCastList}
+    - 台本内の会話で相手を呼ぶときは、必ず「${host.name}さん」「${second.name}さん」のように名前で呼んでください。
+    - 全員がそれぞれの役割に沿って発言するようにしてください。
+    
+${jpFormat}
+
+${jpDelivery}
 
     【絶対に守るべき禁止事項】
     1. **視覚的描写の完全禁止**:
@@ -369,36 +623,24 @@ export const generateScriptFromPDF = async (
 
     【指示: 本質の深掘り】
     1. **意味を問う**:
-       - Host (${hostName}): 単に読み上げるのではなく、「これってつまりどういうこと？」「なぜこれが重要なの？」と問うてください。
-       - Expert (${expertName}): データの裏にある「企業の意図」「市場への影響」を推測して解説してください。
+       - 単に読み上げるのではなく、「これってつまりどういうこと？」「なぜこれが重要なの？」と問い、データの裏にある「企業の意図」「市場への影響」を推測して解説してください。
   `;
 
   const enPrompt = `
-    You are the producer of a podcast featuring two personalities (Host and Expert).
-    Based on the attached PDF (slides), create a podcast script where these two discuss the content.
+    You are the producer of a podcast featuring ${cast.length} personalities.
+    Based on the attached PDF (slides), create a podcast script where these ${cast.length} people discuss the content.
 
     【Settings】
     ${personalityDescription}
 
-    【Important: Character Names】
-    - Host Name: "${hostName}"
-    - Expert Name: "${expertName}"
-    - Always address each other by name in the script (e.g., "${hostName}", "${expertName}").
+    【Important: Character Names and Roles】
+${enCastList}
+    - Always address each other by name in the script (e.g., "${host.name}", "${second.name}").
+    - Every member should speak in line with their role.
 
-    【Script Format】
-    Start each line with the speaker's name as a label.
-    Example:
-    ${hostName}: Hello, ${expertName}.
-    ${expertName}: Hi, ${hostName}. Today we are discussing...
+${enFormat}
 
-    【Structure and Markers (CRITICAL)】
-    **Insert the marker \`[SLIDE X]\` (where X is page number 1, 2...) whenever the topic shifts to a new slide.**
-    Example:
-    [SLIDE 1]
-    ${hostName}: Hello, here is our theme today.
-    ${expertName}: Looks interesting.
-    [SLIDE 2]
-    ${hostName}: So, let's look at the current challenges.
+${enDelivery}
 
     【STRICT PROHIBITIONS】
     1. **No Visual Descriptions**:
@@ -409,32 +651,115 @@ export const generateScriptFromPDF = async (
 
     【Instruction: Deep Dive】
     1. **Ask for Meaning**:
-       - Host (${hostName}): Don't just read. Ask "What does this actually mean?" or "Why is this important?"
-       - Expert (${expertName}): Infer and explain the "corporate intent" or "market impact" behind the data.
+       - Don't just read. Ask "What does this actually mean?" or "Why is this important?", and infer the "corporate intent" or "market impact" behind the data.
   `;
 
-  const prompt = language === 'en' ? enPrompt : jpPrompt;
+  let prompt = language === 'en' ? enPrompt : jpPrompt;
+
+  if (section) {
+    const { from, to, before, after } = section;
+    const slides = from === to ? String(from) : `${from}-${to}`;
+    prompt += language === 'en'
+      ? `
+    【Partial Rewrite (CRITICAL)】
+    Do not write the whole script. Write only the part covering slide ${slides}.
+    - ${format === 'json' ? `Include only the entries for slides ${from} to ${to}.` : `Start with \`[SLIDE ${from}]\` and stop after slide ${to}. Do not include any other slides.`}
+    - The dialogue around this part is shown below. Make the transitions flow naturally and do not repeat it.
+    - Only open or close the episode if this part is at the very beginning or end.
+
+    【Dialogue Before】
+${before || '(This is the start of the script.)'}
+
+    【Dialogue After】
+${after || '(This is the end of the script.)'}
+`
+      : `
+    【部分的な書き直し（重要）】
+    台本全体ではなく、スライド ${slides} の部分だけを書いてください。
+    - ${format === 'json' ? `スライド ${from}〜${to} の要素だけを出力してください。` : `\`[SLIDE ${from}]\` から書き始め、スライド ${to} までで終えてください。それ以外のスライドは含めないでください。`}
+    - 前後の会話は以下の通りです。自然につながるようにし、前後の内容を繰り返さないでください。
+    - オープニングやエンディングの挨拶は、この部分が台本の最初または最後にあたる場合だけ入れてください。
+
+    【直前の会話】
+${before || '（台本の冒頭です）'}
+
+    【直後の会話】
+${after || '（台本の最後です）'}
+`;
+  }
+
+  // Text-only models get the slide text inline instead of the PDF
+  if (!provider.capabilities.pdfInput) {
+    const slideText = await extractSlideText(pdfBase64);
+    prompt += language === 'en'
+      ? `\n    【Slide Text】\n${slideText}\n`
+      : `\n    【スライドのテキスト】\n${slideText}\n`;
+  }
+  return prompt;
+}
 
+export const generateScriptFromPDF = async (
+  pdfBase64: string, 
+  personalityDescription: string,
+  cast: CastMember[],
+  language: 'ja' | 'en' = 'ja',
+  provider: LlmProvider = geminiLlmProvider,
+  section?: ScriptSection
+): Promise<string> => {
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: {
-        parts: [
-          { inlineData: { data: pdfBase64, mimeType: 'application/pdf' } },
-          { text: prompt },
-        ],
-      },
+    const prompt = await buildScriptPrompt(pdfBase64, personalityDescription, cast, language, 'text', provider, section);
+    const script = await provider.generateText({ task: 'script', prompt, pdfBase64 });
+    if (section) {
+      const part = clampToSlideRange(script, section);
+      if (!part.trim()) throw new Error(`No script was generated for slide ${section.from}.`);
+      return part;
+    }
+    return script || (language === 'en' ? "Failed to generate script." : "台本の生成に失敗しました。");
+  } catch (error) {
+    console.error("Error analyzing PDF:", error);
+    throw error;
+  }
+};
+
+/**
+ * Same as generateScriptFromPDF, but asks for schema-constrained JSON (slides -> turns),
+ * so slides and speakers come back as data instead of markers and labels.
+ * With a section, only the slides of that range are returned.
+ */
+export const generateStructuredScriptFromPDF = async (
+  pdfBase64: string,
+  personalityDescription: string,
+  cast: CastMember[],
+  language: 'ja' | 'en' = 'ja',
+  provider: LlmProvider = geminiLlmProvider,
+  section?: ScriptSection
+): Promise<StructuredScript> => {
+  try {
+    const prompt = await buildScriptPrompt(pdfBase64, personalityDescription, cast, language, 'json', provider, section);
+    const response = await provider.generateText({
+      task: 'script',
+      prompt,
+      pdfBase64,
+      responseSchema: scriptResponseSchema(cast),
     });
+    const script = parseStructuredScript(response, cast);
+    if (!section) return script;
 
-    return response.text || (language === 'en' ? "Failed to generate script." : "台本の生成に失敗しました。");
+    const slides = script.slides.filter(s => s.slide >= section.from && s.slide <= section.to);
+    if (slides.length === 0) throw new Error(`No script was generated for slide ${section.from}.`);
+    return { slides };
   } catch (error) {
     console.error("Error analyzing PDF:", error);
     throw error;
   }
 };
 
-export const dramatizeText = async (text: string, styleInstruction?: string, language: 'ja' | 'en' = 'ja'): Promise<string> => {
-  const ai = getClient();
+export const dramatizeText = async (
+  text: string,
+  styleInstruction?: string,
+  language: 'ja' | 'en' = 'ja',
+  provider: LlmProvider = geminiLlmProvider
+): Promise<string> => {
   
   const jpPrompt = `
     以下のポッドキャスト台本を、指定されたスタイルに合わせてリライト（推敲）してください。
@@ -463,11 +788,8 @@ export const dramatizeText = async (text: string, styleInstruction?: string, lan
   const prompt = language === 'en' ? enPrompt : jpPrompt;
 
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-2.5-flash",
-      contents: prompt,
-    });
-    return response.text || text;
+    const rewritten = await provider.generateText({ task: 'dramatize', prompt, input: text });
+    return rewritten || text;
   } catch (error) {
     console.error("Error dramatizing text:", error);
     throw error;
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Single IndexedDB database for everything the app persists locally.
+// Bump DB_VERSION and extend the upgrade handler when adding a store.
+const DB_NAME = 'slide-to-podcast';
+const DB_VERSION = 3;
+
+export const STORES = {
+  audioCache: 'tts-audio',
+  // Library listing and the full project are kept apart so listing never loads PDFs or audio
+  projects: 'projects',
+  projectData: 'project-data',
+  // App-wide preferences as { key, value } records
+  settings: 'settings',
+} as const;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+export const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(STORES.audioCache)) {
+          db.createObjectStore(STORES.audioCache, { keyPath: 'key' });
+        }
+        if (!db.objectStoreNames.contains(STORES.projects)) {
+          db.createObjectStore(STORES.projects, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.projectData)) {
+          db.createObjectStore(STORES.projectData, { keyPath: 'id' });
+        }
+        if (!db.objectStoreNames.contains(STORES.settings)) {
+          db.createObjectStore(STORES.settings, { keyPath: 'key' });
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+/** Runs a single request against an object store and resolves with its result. */
+export const runInStore = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  fn: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(storeName, mode);
+    const request = fn(tx.objectStore(storeName));
+    tx.oncomplete = () => resolve(request.result);
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
+
+/** Runs several requests in one transaction, so they are committed or rolled back together. */
+export const runInTransaction = async (
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  fn: (tx: IDBTransaction) => void
+): Promise<void> => {
+  const db = await openDatabase();
+  return new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(storeNames, mode);
+    fn(tx);
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+};
@@ -0,0 +1,142 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { LlmProvider, LlmProviderId, LlmRequest, LlmSettings, LlmTask } from '../types';
+import { createGeminiLlmProvider, DEFAULT_SCRIPT_MODEL } from './geminiService';
+
+// Model suggested when switching providers in settings
+export const DEFAULT_LLM_MODELS: Record<LlmProviderId, string> = {
+  gemini: DEFAULT_SCRIPT_MODEL,
+  openai: 'llama3.1',
+  fixture: 'fixture-v1',
+};
+
+export const DEFAULT_LLM_SETTINGS: LlmSettings = {
+  provider: 'gemini',
+  model: DEFAULT_LLM_MODELS.gemini,
+  endpoint: 'http://localhost:11434/v1',
+  apiKey: '',
+  fixtureUrl: '',
+  structuredOutput: true,
+};
+
+/**
+ * Any server implementing the OpenAI chat completions API (Ollama, LM Studio, vLLM,
+ * llama.cpp server, ...). Such models cannot read PDFs, so they receive the slide text.
+ */
+export const createOpenAiCompatibleProvider = (endpoint: string, model: string, apiKey: string = ''): LlmProvider => {
+  const baseUrl = endpoint.trim().replace(/\/+$/, '');
+
+  return {
+    id: 'openai',
+    label: 'OpenAI-compatible',
+    model,
+    capabilities: { pdfInput: false, offline: true },
+
+    async generateText({ prompt, responseSchema }, signal) {
+      const response = await fetch(`${baseUrl}/chat/completions`, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {}),
+        },
+        body: JSON.stringify({
+          model,
+          messages: [{ role: 'user', content: prompt }],
+          ...(responseSchema
+            ? { response_format: { type: 'json_schema', json_schema: { name: 'response', schema: responseSchema } } }
+            : {}),
+        }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`LLM server returned ${response.status} ${response.statusText}.`);
+      const data = await response.json();
+      return data.choices?.[0]?.message?.content ?? '';
+    },
+  };
+};
+
+/** Shape of a fixture file: responses recorded per task, replayed in order. */
+export interface LlmFixtureFile {
+  responses: { task: LlmTask; text: string }[];
+}
+
+const BUILT_IN_SCRIPT = `[SLIDE 1]
+Host: Welcome back. Today we are walking through a new slide deck together.
+Expert: Thanks for having me. Let's start with the big picture.
+[SLIDE 2]
+Host: So what is the key takeaway here?
+Expert: In short, the details on this slide support the main idea from the opening.`;
+
+// The same sample in the structured format; speakers are given by id so any cast names work
+const BUILT_IN_STRUCTURED_SCRIPT = JSON.stringify({
+  slides: [
+    {
+      slide: 1,
+      turns: [
+        { speaker: 'Host', text: 'Welcome back. Today we are walking through a new slide deck together.' },
+        { speaker: 'Expert', text: "Thanks for having me. Let's start with the big picture." },
+      ],
+    },
+    {
+      slide: 2,
+      turns: [
+        { speaker: 'Host', text: 'So what is the key takeaway here?' },
+        { speaker: 'Expert', text: 'In short, the details on this slide support the main idea from the opening.' },
+      ],
+    },
+  ],
+});
+
+/**
+ * Returns canned text without any network access, for demos and end-to-end tests.
+ * Without a fixture URL, scripts come from a built-in sample and dramatize is a no-op.
+ * With one, responses for each task are replayed in recorded order, repeating the last.
+ */
+export const createFixtureLlmProvider = (fixtureUrl: string = ''): LlmProvider => {
+  let fixtures: Promise<LlmFixtureFile> | null = null;
+  const served: Record<LlmTask, number> = { script: 0, dramatize: 0 };
+
+  const builtIn = (request: LlmRequest) => {
+    if (request.task === 'dramatize') return request.input ?? '';
+    return request.responseSchema ? BUILT_IN_STRUCTURED_SCRIPT : BUILT_IN_SCRIPT;
+  };
+
+  const loadFixtures = () => {
+    if (!fixtures) {
+      fixtures = fetch(fixtureUrl).then(response => {
+        if (!response.ok) throw new Error(`Fixture request failed (${response.status}).`);
+        return response.json();
+      });
+      fixtures.catch(() => { fixtures = null; });
+    }
+    return fixtures;
+  };
+
+  return {
+    id: 'fixture',
+    label: 'Fixture',
+    model: DEFAULT_LLM_MODELS.fixture,
+    capabilities: { pdfInput: true, offline: true },
+
+    async generateText(request) {
+      if (!fixtureUrl.trim()) return builtIn(request);
+
+      const { responses } = await loadFixtures();
+      const matching = responses.filter(r => r.task === request.task);
+      if (matching.length === 0) return builtIn(request);
+
+      const index = Math.min(served[request.task]++, matching.length - 1);
+      return matching[index].text;
+    },
+  };
+};
+
+export const createLlmProvider = (settings: LlmSettings): LlmProvider => {
+  switch (settings.provider) {
+    case 'openai': return createOpenAiCompatibleProvider(settings.endpoint, settings.model, settings.apiKey);
+    case 'fixture': return createFixtureLlmProvider(settings.fixtureUrl);
+    default: return createGeminiLlmProvider(settings.model || DEFAULT_SCRIPT_MODEL);
+  }
+};
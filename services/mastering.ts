@@ -0,0 +1,202 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MasteringSettings } from '../types';
+
+export const DEFAULT_MASTERING_SETTINGS: MasteringSettings = {
+  trimSilence: true,
+  normalizeLoudness: true,
+  targetLufs: -16, // Common podcast target
+  truePeakCeiling: -1,
+};
+
+export const LOUDNESS_TARGETS = [-14, -16, -19, -23];
+
+const SILENCE_THRESHOLD_DB = -50;
+const TRIM_PADDING_SEC = 0.03; // Keeps soft onsets and breath tails
+const MAX_GAIN_DB = 20; // Don't turn a near-silent clip into amplified noise
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+// --- Silence Trimming ---
+
+/** Drops leading and trailing silence, keeping a little padding. Returns a view into `samples`. */
+export const trimSilence = (samples: Float32Array, sampleRate: number): Float32Array => {
+  const threshold = dbToGain(SILENCE_THRESHOLD_DB);
+  let start = 0;
+  while (start < samples.length && Math.abs(samples[start]) < threshold) start++;
+  if (start === samples.length) return samples; // Nothing but silence; leave it to the caller
+
+  let end = samples.length;
+  while (end > start && Math.abs(samples[end - 1]) < threshold) end--;
+  const padding = Math.round(TRIM_PADDING_SEC * sampleRate);
+  return samples.subarray(Math.max(0, start - padding), Math.min(samples.length, end + padding));
+};
+
+// --- Loudness (ITU-R BS.1770) ---
+
+type Biquad = { b: [number, number, number]; a: [number, number] };
+
+// K-weighting for any sample rate: a high shelf for the head, then the RLB high-pass
+const kWeightingFilters = (sampleRate: number): Biquad[] => {
+  let K = Math.tan(Math.PI * 1681.974450955533 / sampleRate);
+  let Q = 0.7071752369554196;
+  const Vh = Math.pow(10, 3.999843853973347 / 20);
+  const Vb = Math.pow(Vh, 0.4996667741545416);
+  let a0 = 1 + K / Q + K * K;
+  const shelf: Biquad = {
+    b: [(Vh + Vb * K / Q + K * K) / a0, 2 * (K * K - Vh) / a0, (Vh - Vb * K / Q + K * K) / a0],
+    a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0],
+  };
+
+  K = Math.tan(Math.PI * 38.13547087602444 / sampleRate);
+  Q = 0.5003270373238773;
+  a0 = 1 + K / Q + K * K;
+  const highPass: Biquad = {
+    b: [1, -2, 1],
+    a: [2 * (K * K - 1) / a0, (1 - K / Q + K * K) / a0],
+  };
+  return [shelf, highPass];
+};
+
+const applyBiquad = (input: Float32Array, { b, a }: Biquad): Float32Array => {
+  const output = new Float32Array(input.length);
+  let x1 = 0, x2 = 0, y1 = 0, y2 = 0;
+  for (let i = 0; i < input.length; i++) {
+    const x = input[i];
+    const y = b[0] * x + b[1] * x1 + b[2] * x2 - a[0] * y1 - a[1] * y2;
+    x2 = x1; x1 = x;
+    y2 = y1; y1 = y;
+    output[i] = y;
+  }
+  return output;
+};
+
+/**
+ * Integrated loudness in LUFS of a set of clips measured as one programme: 400 ms blocks
+ * with 75% overlap, absolute gate at -70 LUFS and relative gate 10 LU below. -Infinity if silent.
+ */
+export const measureLoudness = (clips: Float32Array[], sampleRate: number): number => {
+  const filters = kWeightingFilters(sampleRate);
+  const blockSize = Math.round(0.4 * sampleRate);
+  const hop = Math.round(0.1 * sampleRate);
+  const blockPowers: number[] = [];
+
+  for (const clip of clips) {
+    const weighted = filters.reduce(applyBiquad, clip);
+    // Clips shorter than a block still count as one (short) block
+    const lastStart = Math.max(0, weighted.length - blockSize);
+    for (let start = 0; start <= lastStart; start += hop) {
+      const end = Math.min(weighted.length, start + blockSize);
+      if (end <= start) break;
+      let sum = 0;
+      for (let i = start; i < end; i++) sum += weighted[i] * weighted[i];
+      blockPowers.push(sum / (end - start));
+    }
+  }
+
+  const toLufs = (power: number) => -0.691 + 10 * Math.log10(power);
+  const mean = (values: number[]) => values.reduce((acc, v) => acc + v, 0) / values.length;
+
+  const aboveAbsolute = blockPowers.filter(p => toLufs(p) > -70);
+  if (aboveAbsolute.length === 0) return -Infinity;
+  const relativeGate = toLufs(mean(aboveAbsolute)) - 10;
+  const gated = aboveAbsolute.filter(p => toLufs(p) > relativeGate);
+  return toLufs(mean(gated));
+};
+
+// --- True-peak Limiting ---
+
+const OVERSAMPLING = 4;
+const INTERPOLATION_TAPS = 8; // Per side
+
+// Windowed-sinc coefficients for the samples in between, one set per oversampling phase
+const INTERPOLATION_PHASES: Float32Array[] = Array.from({ length: OVERSAMPLING - 1 }, (_, p) => {
+  const fraction = (p + 1) / OVERSAMPLING;
+  const taps = new Float32Array(INTERPOLATION_TAPS * 2);
+  for (let k = 0; k < taps.length; k++) {
+    const x = k - (INTERPOLATION_TAPS - 1) - fraction; // Offset from the interpolated point
+    const sinc = Math.sin(Math.PI * x) / (Math.PI * x);
+    const window = 0.5 + 0.5 * Math.cos(Math.PI * x / INTERPOLATION_TAPS); // Hann
+    taps[k] = sinc * window;
+  }
+  return taps;
+});
+
+// Largest absolute level between sample i and i + 1, including the interpolated points
+const truePeakAt = (samples: Float32Array, i: number): number => {
+  let peak = Math.abs(samples[i]);
+  for (const taps of INTERPOLATION_PHASES) {
+    let value = 0;
+    for (let k = 0; k < taps.length; k++) {
+      const index = i + k - (INTERPOLATION_TAPS - 1);
+      if (index >= 0 && index < samples.length) value += samples[index] * taps[k];
+    }
+    peak = Math.max(peak, Math.abs(value));
+  }
+  return peak;
+};
+
+const LIMITER_LOOKAHEAD_SEC = 0.005;
+const LIMITER_RELEASE_SEC = 0.1;
+
+/**
+ * Keeps the signal's true peak under `ceilingDb` (dBTP), in place. Gain ramps down over a short
+ * lookahead before each overshoot and recovers smoothly after it.
+ */
+export const limitTruePeak = (samples: Float32Array, sampleRate: number, ceilingDb: number): void => {
+  const ceiling = dbToGain(ceilingDb);
+  const lookahead = Math.max(1, Math.round(LIMITER_LOOKAHEAD_SEC * sampleRate));
+  const required = new Float32Array(samples.length).fill(1);
+  let overshoots = 0;
+
+  for (let i = 0; i < samples.length; i++) {
+    // Only samples near the ceiling can have an inter-sample peak over it
+    if (Math.abs(samples[i]) < ceiling * 0.5) continue;
+    const peak = truePeakAt(samples, i);
+    if (peak <= ceiling) continue;
+    overshoots++;
+    const gain = ceiling / peak;
+    for (let j = Math.max(0, i - lookahead); j <= i; j++) {
+      const ramp = 1 - (1 - gain) * (j - (i - lookahead)) / lookahead;
+      if (ramp < required[j]) required[j] = ramp;
+    }
+  }
+  if (overshoots === 0) return;
+
+  const release = Math.exp(-1 / (LIMITER_RELEASE_SEC * sampleRate));
+  let envelope = 1;
+  for (let i = 0; i < samples.length; i++) {
+    envelope = required[i] < envelope ? required[i] : required[i] + (envelope - required[i]) * release;
+    samples[i] *= envelope;
+  }
+};
+
+// --- Clip Mastering ---
+
+/**
+ * Trims each clip and brings every speaker to the target loudness, measured over all of
+ * that speaker's clips. Returns new arrays; the inputs may be shared with the audio cache.
+ */
+export const masterClips = (
+  clips: Float32Array[],
+  speakers: string[],
+  sampleRate: number,
+  settings: MasteringSettings
+): Float32Array[] => {
+  const trimmed = settings.trimSilence ? clips.map(clip => trimSilence(clip, sampleRate)) : clips;
+  if (!settings.normalizeLoudness) return trimmed.map(clip => clip.slice());
+
+  const gains = new Map<string, number>();
+  for (const speaker of new Set(speakers)) {
+    const loudness = measureLoudness(trimmed.filter((_, i) => speakers[i] === speaker), sampleRate);
+    const gainDb = Number.isFinite(loudness) ? Math.min(MAX_GAIN_DB, settings.targetLufs - loudness) : 0;
+    gains.set(speaker, dbToGain(gainDb));
+  }
+
+  return trimmed.map((clip, i) => {
+    const gain = gains.get(speakers[i]) ?? 1;
+    return clip.map(sample => sample * gain);
+  });
+};
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { MusicCue, MusicSettings, ScriptSegment } from '../types';
+import { measureLoudness } from './mastering';
+
+export const MUSIC_CUES: MusicCue[] = ['intro', 'outro', 'bed', 'sting'];
+
+export const DEFAULT_MUSIC_SETTINGS: MusicSettings = {
+  jingleLevel: -3,
+  bedLevel: -15,
+  duckingDepth: 12,
+};
+
+export interface EpisodeMusic {
+  tracks: Partial<Record<MusicCue, Blob>>;
+  settings: MusicSettings;
+}
+
+const DUCK_ATTACK_SEC = 0.3;
+const DUCK_RELEASE_SEC = 0.6;
+const BED_FADE_SEC = 2;
+
+const dbToGain = (db: number) => Math.pow(10, db / 20);
+
+export const hasMusic = (tracks: Partial<Record<MusicCue, Blob>>): boolean =>
+  MUSIC_CUES.some(cue => tracks[cue] !== undefined);
+
+const decodeTrack = async (blob: Blob, sampleRate: number): Promise<AudioBuffer> => {
+  const context = new OfflineAudioContext(1, 1, sampleRate);
+  return context.decodeAudioData(await blob.arrayBuffer());
+};
+
+/** Whether the browser can decode a track, checked when it is attached rather than after the speech is paid for. */
+export const canDecodeTrack = async (blob: Blob): Promise<boolean> => {
+  try {
+    await decodeTrack(blob, 44100);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+const mixdown = (buffer: AudioBuffer): Float32Array => {
+  if (buffer.numberOfChannels === 1) return buffer.getChannelData(0);
+  const mono = new Float32Array(buffer.length);
+  for (let c = 0; c < buffer.numberOfChannels; c++) {
+    const channel = buffer.getChannelData(c);
+    for (let i = 0; i < mono.length; i++) mono[i] += channel[i] / buffer.numberOfChannels;
+  }
+  return mono;
+};
+
+// Gain that puts a track `levelDb` relative to the speech loudness
+const levelGain = (buffer: AudioBuffer, speechLufs: number, levelDb: number): number => {
+  const loudness = measureLoudness([mixdown(buffer)], buffer.sampleRate);
+  return Number.isFinite(loudness) ? dbToGain(speechLufs + levelDb - loudness) : 1;
+};
+
+// Speech stretches, with short gaps closed so the music doesn't pump between sentences
+const speechIntervals = (segments: ScriptSegment[]): { start: number, end: number }[] => {
+  const intervals: { start: number, end: number }[] = [];
+  for (const segment of segments) {
+    const last = intervals[intervals.length - 1];
+    if (last && segment.startTime - last.end < DUCK_ATTACK_SEC + DUCK_RELEASE_SEC) {
+      last.end = Math.max(last.end, segment.endTime);
+    } else {
+      intervals.push({ start: segment.startTime, end: segment.endTime });
+    }
+  }
+  return intervals;
+};
+
+/**
+ * Lays the voice track out with the episode's music: intro before it, outro after it, a looping
+ * bed underneath and a sting at each slide change. The bed and stings duck under speech.
+ * Returns the mix and the segments shifted to where the voice now starts.
+ */
+export const mixEpisodeMusic = async (
+  voice: AudioBuffer,
+  segments: ScriptSegment[],
+  { tracks, settings }: EpisodeMusic,
+  speechLufs: number
+): Promise<{ buffer: AudioBuffer, segments: ScriptSegment[] }> => {
+  const sampleRate = voice.sampleRate;
+  const decoded: Partial<Record<MusicCue, AudioBuffer>> = {};
+  for (const cue of MUSIC_CUES) {
+    const blob = tracks[cue];
+    if (blob) decoded[cue] = await decodeTrack(blob, sampleRate);
+  }
+  const { intro, outro, bed, sting } = decoded;
+
+  const voiceStart = intro?.duration ?? 0;
+  const voiceEnd = voiceStart + voice.duration;
+  const totalDuration = Math.max(voiceEnd + (outro?.duration ?? 0), bed ? voiceEnd + BED_FADE_SEC : 0);
+  const context = new OfflineAudioContext(1, Math.ceil(totalDuration * sampleRate), sampleRate);
+
+  const play = (buffer: AudioBuffer, at: number, gain: number, destination: AudioNode): AudioBufferSourceNode => {
+    const source = context.createBufferSource();
+    source.buffer = buffer;
+    const gainNode = context.createGain();
+    gainNode.gain.value = gain;
+    source.connect(gainNode).connect(destination);
+    source.start(at);
+    return source;
+  };
+
+  play(voice, voiceStart, 1, context.destination);
+  if (intro) play(intro, 0, levelGain(intro, speechLufs, settings.jingleLevel), context.destination);
+  if (outro) play(outro, voiceEnd, levelGain(outro, speechLufs, settings.jingleLevel), context.destination);
+
+  // Music that shares the timeline with speech goes through a bus that ducks under it
+  const musicBus = context.createGain();
+  musicBus.connect(context.destination);
+  const ducked = dbToGain(-settings.duckingDepth);
+  musicBus.gain.setValueAtTime(1, 0);
+  for (const { start, end } of speechIntervals(segments)) {
+    musicBus.gain.setValueAtTime(1, Math.max(0, voiceStart + start - DUCK_ATTACK_SEC));
+    musicBus.gain.linearRampToValueAtTime(ducked, voiceStart + start);
+    musicBus.gain.setValueAtTime(ducked, voiceStart + end);
+    musicBus.gain.linearRampToValueAtTime(1, voiceStart + end + DUCK_RELEASE_SEC);
+  }
+
+  if (bed) {
+    const bedGain = context.createGain();
+    const level = levelGain(bed, speechLufs, settings.bedLevel);
+    bedGain.gain.setValueAtTime(0, voiceStart);
+    bedGain.gain.linearRampToValueAtTime(level, Math.min(voiceEnd, voiceStart + BED_FADE_SEC));
+    bedGain.gain.setValueAtTime(level, voiceEnd);
+    bedGain.gain.linearRampToValueAtTime(0, voiceEnd + BED_FADE_SEC);
+    bedGain.connect(musicBus);
+    const source = play(bed, voiceStart, 1, bedGain);
+    source.loop = true;
+    source.stop(voiceEnd + BED_FADE_SEC);
+  }
+
+  if (sting) {
+    const gain = levelGain(sting, speechLufs, settings.jingleLevel);
+    segments.forEach((segment, i) => {
+      // Starts as the previous slide's last line ends, in the pause before the next slide
+      if (i > 0 && segment.slideIndex !== segments[i - 1].slideIndex) {
+        play(sting, voiceStart + segments[i - 1].endTime, gain, musicBus);
+      }
+    });
+  }
+
+  return {
+    buffer: await context.startRendering(),
+    segments: segments.map(segment => ({
+      ...segment,
+      startTime: segment.startTime + voiceStart,
+      endTime: segment.endTime + voiceStart,
+    })),
+  };
+};
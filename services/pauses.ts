@@ -0,0 +1,38 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PauseSettings, ScriptSegment } from '../types';
+
+export const DEFAULT_PAUSE_SETTINGS: PauseSettings = {
+  sameSpeaker: 0.2,
+  speakerChange: 0.4,
+  slideChange: 1.2,
+  crossfade: 0.02,
+};
+
+export const MAX_PAUSE_SEC = 10;
+export const MAX_CROSSFADE_SEC = 0.5;
+
+// How far a back-channel interjection ("right", "なるほど") reaches into the line before it
+export const INTERJECTION_OVERLAP_SEC = 0.5;
+
+// `[PAUSE 1.5]` (seconds, optional "s") after a sentence sets the silence that follows it
+export const PAUSE_MARKER = /\[PAUSE\s+(\d+(?:\.\d+)?)\s*s?\]/i;
+
+export const formatPauseMarker = (seconds: number): string => `[PAUSE ${seconds}]`;
+
+// `[OVERLAP]` at the start of a line marks it as an interjection over the previous speaker
+export const INTERJECTION_MARKER = /\[OVERLAP\]\s*/i;
+export const INTERJECTION_TAG = '[OVERLAP]';
+
+/**
+ * Silence between two consecutive clips, negative when they overlap. A pause marker on the
+ * earlier clip overrides the rules; an interjection overrides everything else.
+ */
+export const getPauseBetween = (previous: ScriptSegment, next: ScriptSegment, settings: PauseSettings): number => {
+  if (previous.pauseAfter !== undefined) return previous.pauseAfter;
+  if (next.interjection) return -INTERJECTION_OVERLAP_SEC;
+  if (previous.slideIndex !== next.slideIndex) return settings.slideChange;
+  return previous.speaker === next.speaker ? settings.sameSpeaker : settings.speakerChange;
+};
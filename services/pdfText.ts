@@ -0,0 +1,35 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import * as pdfjsDist from 'pdfjs-dist';
+
+// Handle ESM/CommonJS interop the same way App.tsx does; the worker is configured there
+const pdfjsLib = (pdfjsDist as any).default || pdfjsDist;
+
+/**
+ * Extracts the text layer of each page, labelled with the same `[SLIDE X]` markers the
+ * script uses. Gives text-only models something to work from when they cannot read PDFs.
+ */
+export const extractSlideText = async (pdfBase64: string): Promise<string> => {
+  const binary = atob(pdfBase64);
+  const data = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    data[i] = binary.charCodeAt(i);
+  }
+
+  const pdf = await pdfjsLib.getDocument({ data }).promise;
+  const pages: string[] = [];
+  for (let i = 1; i <= pdf.numPages; i++) {
+    const page = await pdf.getPage(i);
+    const content = await page.getTextContent();
+    const pageText = content.items
+      .map((item: any) => item.str + (item.hasEOL ? '\n' : ''))
+      .join('')
+      .replace(/[ \t]+/g, ' ')
+      .trim();
+    pages.push(`[SLIDE ${i}]\n${pageText}`);
+  }
+  await pdf.destroy();
+  return pages.join('\n\n');
+};
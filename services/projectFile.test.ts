@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { CastMember, Project } from '../types';
+import { exportProjectArchive, importProjectFile } from './projectFile';
+
+const cast: CastMember[] = [
+  { id: 'Host', name: 'Aoi', role: 'host', voice: 'Kore', rate: 1.1 },
+  { id: 'Expert', name: 'Ren', role: 'expert', voice: 'Puck', pitch: -2 },
+];
+
+const pdfBytes = new Uint8Array([0x25, 0x50, 0x44, 0x46, 0x2d, 0x31, 0x2e, 0x37, 0x00, 0xff, 0x80]);
+const pdfBase64 = Buffer.from(pdfBytes).toString('base64');
+
+const project: Project = {
+  language: 'ja',
+  styleId: 'deep_dive',
+  customStylePrompt: '',
+  cast,
+  text: '[SLIDE 1]\nAoi: こんにちは。\nRen: Hello.',
+  segments: [
+    { id: 'a', slideIndex: 0, speaker: 'Host', text: 'こんにちは。', startTime: 0, endTime: 1.5, turn: 0 },
+    { id: 'b', slideIndex: 0, speaker: 'Expert', text: 'Hello.', startTime: 1.5, endTime: 3, turn: 1 },
+  ],
+  pdfBase64,
+  pdfName: 'deck.pdf',
+  audio: new Blob([new Uint8Array([1, 2, 3, 4, 5])], { type: 'audio/wav' }),
+};
+
+// What a project looks like before a file is opened over it
+const current: Project = { ...project, text: '', segments: [], pdfBase64: 'b3RoZXI=', pdfName: 'other.pdf', audio: undefined };
+
+const v1File = (data: object) => new Blob([JSON.stringify({ version: 1, ...data })], { type: 'application/json' });
+
+describe('project archive', () => {
+  it('keeps text, cast, segments, PDF bytes and audio through export and import', async () => {
+    const opened = await importProjectFile(await exportProjectArchive(project), current);
+
+    expect(opened.text).toBe(project.text);
+    expect(opened.cast).toEqual(cast);
+    expect(opened.segments).toEqual(project.segments);
+    expect(opened.pdfName).toBe('deck.pdf');
+    expect(new Uint8Array(Buffer.from(opened.pdfBase64!, 'base64'))).toEqual(pdfBytes);
+    expect(new Uint8Array(await opened.audio!.arrayBuffer())).toEqual(new Uint8Array([1, 2, 3, 4, 5]));
+  });
+
+  it('opens an archive without a PDF or audio as having neither', async () => {
+    const opened = await importProjectFile(
+      await exportProjectArchive({ ...project, pdfBase64: undefined, pdfName: undefined, audio: undefined }), current);
+    expect(opened.pdfBase64).toBeUndefined();
+    expect(opened.audio).toBeUndefined();
+  });
+});
+
+describe('v1 migration', () => {
+  it('takes the script, names and PDF from a v1 export', async () => {
+    const opened = await importProjectFile(v1File({ text: 'Aoi: Hi.', hostName: 'Haru', expertName: 'Kai', pdfBase64 }), current);
+
+    expect(opened.text).toBe('Aoi: Hi.');
+    expect(opened.cast.map(m => m.name)).toEqual(['Haru', 'Kai']);
+    expect(opened.cast.map(m => m.voice)).toEqual(['Kore', 'Puck']);
+    expect(opened.pdfBase64).toBe(pdfBase64);
+    expect(opened.segments).toEqual([]);
+    expect(opened.audio).toBeUndefined();
+  });
+
+  it('does not keep the open PDF when the v1 export has none', async () => {
+    const opened = await importProjectFile(v1File({ text: 'Aoi: Hi.', hostName: 'Haru', expertName: 'Kai' }), current);
+    expect(opened.pdfBase64).toBeUndefined();
+    expect(opened.pdfName).toBeUndefined();
+  });
+
+  it('rejects other versions', async () => {
+    await expect(importProjectFile(v1File({ version: 3, text: '' }), current)).rejects.toThrow('Unsupported project file');
+  });
+});
@@ -0,0 +1,129 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CastMember, Project } from '../types';
+import { MAX_CAST_SIZE, MIN_CAST_SIZE } from './cast';
+import { createZip, isZip, readZip, ZipEntry } from './zip';
+
+export const PROJECT_FORMAT_VERSION = 2;
+export const PROJECT_FILE_EXTENSION = '.podcast.zip';
+
+// Archive layout: the manifest plus binary files stored as-is rather than as base64 in JSON
+const MANIFEST_PATH = 'project.json';
+const PDF_PATH = 'slides.pdf';
+const AUDIO_PATH = 'episode.wav';
+
+/** Contents of `project.json`; binary fields are replaced by paths inside the archive. */
+interface ProjectManifest extends Omit<Project, 'pdfBase64' | 'audio'> {
+  version: 2;
+  savedAt: number;
+  files: { pdf?: string; audio?: string };
+}
+
+/** The original single-JSON export: script, two names and the PDF as base64. */
+interface ProjectV1 {
+  version: 1;
+  text: string;
+  hostName?: string;
+  expertName?: string;
+  cast?: CastMember[];
+  structuredScript?: Project['structuredScript'];
+  pdfBase64?: string;
+  timestamp?: number;
+}
+
+const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked to stay under the argument limit of String.fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+export const exportProjectArchive = async (project: Project): Promise<Blob> => {
+  const { pdfBase64, audio, ...rest } = project;
+  const entries: ZipEntry[] = [];
+
+  if (pdfBase64) entries.push({ name: PDF_PATH, data: base64ToBytes(pdfBase64) });
+  if (audio) entries.push({ name: AUDIO_PATH, data: new Uint8Array(await audio.arrayBuffer()) });
+
+  const manifest: ProjectManifest = {
+    ...rest,
+    version: PROJECT_FORMAT_VERSION,
+    savedAt: Date.now(),
+    files: {
+      pdf: pdfBase64 ? PDF_PATH : undefined,
+      audio: audio ? AUDIO_PATH : undefined,
+    },
+  };
+  // Manifest first, so it is easy to find when inspecting the archive
+  entries.unshift({ name: MANIFEST_PATH, data: new TextEncoder().encode(JSON.stringify(manifest, null, 2)) });
+  return createZip(entries);
+};
+
+/**
+ * Brings a v1 export up to the current shape. v1 files carry only the script, names and
+ * PDF; everything else keeps its value from `current`, which is what importing v1 did.
+ * A file without a PDF has none, rather than the deck currently open.
+ * Segments are left empty so they are parsed again from the text.
+ */
+export const migrateProjectV1 = (data: ProjectV1, current: Project): Project => {
+  let cast: CastMember[];
+  if (Array.isArray(data.cast) && data.cast.length >= MIN_CAST_SIZE) {
+    cast = data.cast.slice(0, MAX_CAST_SIZE);
+  } else {
+    cast = current.cast.map((m, i) =>
+      i === 0 && data.hostName ? { ...m, name: data.hostName } :
+      i === 1 && data.expertName ? { ...m, name: data.expertName } : m
+    );
+  }
+
+  return {
+    ...current,
+    cast,
+    text: data.text,
+    structuredScript: data.structuredScript,
+    segments: [],
+    pdfBase64: data.pdfBase64,
+    pdfName: undefined,
+    audio: undefined,
+  };
+};
+
+const readManifest = async (files: Map<string, Uint8Array>): Promise<Project> => {
+  const raw = files.get(MANIFEST_PATH);
+  if (!raw) throw new Error(`Archive has no ${MANIFEST_PATH}.`);
+
+  const manifest = JSON.parse(new TextDecoder().decode(raw)) as ProjectManifest;
+  if (manifest.version !== PROJECT_FORMAT_VERSION) throw new Error(`Unsupported project version ${manifest.version}.`);
+  if (typeof manifest.text !== 'string' || !Array.isArray(manifest.cast)) throw new Error("Project manifest is incomplete.");
+
+  const { version, savedAt, files: paths, ...project } = manifest;
+  const pdf = paths.pdf ? files.get(paths.pdf) : undefined;
+  const audio = paths.audio ? files.get(paths.audio) : undefined;
+  return {
+    ...project,
+    segments: Array.isArray(project.segments) ? project.segments : [],
+    pdfBase64: pdf ? bytesToBase64(pdf) : undefined,
+    audio: audio ? new Blob([audio], { type: 'audio/wav' }) : undefined,
+  };
+};
+
+/** Opens a v2 archive or a v1 JSON export; v1 is migrated against the current project. */
+export const importProjectFile = async (file: Blob, current: Project): Promise<Project> => {
+  const bytes = new Uint8Array(await file.arrayBuffer());
+  if (isZip(bytes)) return readManifest(await readZip(bytes));
+
+  const data = JSON.parse(new TextDecoder().decode(bytes));
+  if (data?.version === 1 && typeof data.text === 'string') return migrateProjectV1(data, current);
+  throw new Error(`Unsupported project file (version ${data?.version ?? 'unknown'}).`);
+};
@@ -0,0 +1,86 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { Project, ProjectSummary } from '../types';
+import { runInStore, runInTransaction, STORES } from './idb';
+
+interface StoredProject {
+  id: string;
+  project: Project; // Blobs (audio) are stored natively by IndexedDB
+}
+
+export const createProjectId = (): string =>
+  `${Date.now().toString(36)}-${Math.random().toString(36).substr(2, 6)}`;
+
+// Named after the deck; scripts pasted or imported without a PDF fall back to their first line
+const defaultTitle = (project: Project): string => {
+  if (project.pdfName) return project.pdfName.replace(/\.pdf$/i, '');
+  const firstLine = project.text.split('\n').map(l => l.trim()).find(l => l && !/^\[SLIDE/i.test(l));
+  return firstLine ? firstLine.slice(0, 40) : 'Untitled';
+};
+
+const summarize = (id: string, project: Project, slideCount: number, previous?: ProjectSummary): ProjectSummary => {
+  const now = Date.now();
+  return {
+    id,
+    title: previous?.title ?? defaultTitle(project),
+    slideCount,
+    duration: project.segments.length > 0 ? project.segments[project.segments.length - 1].endTime : 0,
+    createdAt: previous?.createdAt ?? now,
+    updatedAt: now,
+  };
+};
+
+export const listProjects = async (): Promise<ProjectSummary[]> => {
+  const summaries = await runInStore<ProjectSummary[]>(STORES.projects, 'readonly', store => store.getAll());
+  return summaries.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/** Creates or updates a project; the title and creation date of an existing one are kept. */
+export const saveProject = async (id: string, project: Project, slideCount: number): Promise<ProjectSummary> => {
+  const previous = await runInStore<ProjectSummary | undefined>(STORES.projects, 'readonly', store => store.get(id));
+  const summary = summarize(id, project, slideCount, previous);
+  const stored: StoredProject = { id, project };
+  await runInTransaction([STORES.projects, STORES.projectData], 'readwrite', tx => {
+    tx.objectStore(STORES.projects).put(summary);
+    tx.objectStore(STORES.projectData).put(stored);
+  });
+  return summary;
+};
+
+export const loadProject = async (id: string): Promise<Project> => {
+  const stored = await runInStore<StoredProject | undefined>(STORES.projectData, 'readonly', store => store.get(id));
+  if (!stored) throw new Error(`Project ${id} not found.`);
+  return stored.project;
+};
+
+export const renameProject = async (id: string, title: string): Promise<void> => {
+  const summary = await runInStore<ProjectSummary | undefined>(STORES.projects, 'readonly', store => store.get(id));
+  if (!summary) throw new Error(`Project ${id} not found.`);
+  await runInStore(STORES.projects, 'readwrite', store => store.put({ ...summary, title, updatedAt: Date.now() }));
+};
+
+export const duplicateProject = async (id: string, title: string): Promise<ProjectSummary> => {
+  const [summary, project] = await Promise.all([
+    runInStore<ProjectSummary | undefined>(STORES.projects, 'readonly', store => store.get(id)),
+    loadProject(id),
+  ]);
+  if (!summary) throw new Error(`Project ${id} not found.`);
+
+  const now = Date.now();
+  const copy: ProjectSummary = { ...summary, id: createProjectId(), title, createdAt: now, updatedAt: now };
+  const stored: StoredProject = { id: copy.id, project };
+  await runInTransaction([STORES.projects, STORES.projectData], 'readwrite', tx => {
+    tx.objectStore(STORES.projects).put(copy);
+    tx.objectStore(STORES.projectData).put(stored);
+  });
+  return copy;
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  await runInTransaction([STORES.projects, STORES.projectData], 'readwrite', tx => {
+    tx.objectStore(STORES.projects).delete(id);
+    tx.objectStore(STORES.projectData).delete(id);
+  });
+};
@@ -0,0 +1,53 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PronunciationEntry } from '../types';
+import { runInStore, STORES } from './idb';
+import { escapeRegExp } from './scriptParser';
+
+const GLOBAL_GLOSSARY_KEY = 'pronunciations';
+
+export const loadGlobalPronunciations = async (): Promise<PronunciationEntry[]> => {
+  const record = await runInStore<{ key: string, value: PronunciationEntry[] } | undefined>(
+    STORES.settings, 'readonly', store => store.get(GLOBAL_GLOSSARY_KEY)
+  );
+  return record?.value ?? [];
+};
+
+export const saveGlobalPronunciations = async (entries: PronunciationEntry[]): Promise<void> => {
+  await runInStore(STORES.settings, 'readwrite', store => store.put({ key: GLOBAL_GLOSSARY_KEY, value: entries }));
+};
+
+/** Entries for one language; a project entry replaces a global one for the same term. */
+export const resolvePronunciations = (
+  globalEntries: PronunciationEntry[],
+  projectEntries: PronunciationEntry[],
+  language: 'ja' | 'en'
+): PronunciationEntry[] => {
+  const byTerm = new Map<string, PronunciationEntry>();
+  for (const entry of [...globalEntries, ...projectEntries]) {
+    const term = entry.term.trim();
+    if (entry.language === language && term && entry.spoken.trim()) byTerm.set(term, entry);
+  }
+  return [...byTerm.values()];
+};
+
+/**
+ * Rewrites terms to their spoken form for the TTS request. Longer terms win, and terms
+ * starting or ending in a Latin letter or digit only match whole words ("AI" leaves "said" alone).
+ */
+export const applyPronunciations = (text: string, entries: PronunciationEntry[]): string => {
+  const spokenByTerm = new Map(entries.map(entry => [entry.term.trim(), entry.spoken.trim()]));
+  spokenByTerm.delete('');
+  if (spokenByTerm.size === 0) return text;
+
+  const terms = [...spokenByTerm.keys()].sort((a, b) => b.length - a.length);
+  const pattern = new RegExp(terms.map(term => {
+    const start = /^[A-Za-z0-9]/.test(term) ? '(?<![A-Za-z0-9])' : '';
+    const end = /[A-Za-z0-9]$/.test(term) ? '(?![A-Za-z0-9])' : '';
+    return `${start}${escapeRegExp(term)}${end}`;
+  }).join('|'), 'g');
+  // One pass, so a spoken form is never rewritten again by another entry
+  return text.replace(pattern, match => spokenByTerm.get(match) ?? match);
+};
@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { createRequestScheduler } from './rateLimiter';
+
+const limits = { concurrency: 1, requestsPerMinute: 1000, tokensPerMinute: 1000000 };
+
+describe('createRequestScheduler', () => {
+  it('rejects a task that throws synchronously and frees its slot', async () => {
+    const scheduler = createRequestScheduler(limits);
+    const failing = scheduler.run(1, () => { throw new Error('aborted'); });
+    const next = scheduler.run(1, async () => 'ran');
+
+    await expect(failing).rejects.toThrow('aborted');
+    await expect(next).resolves.toBe('ran');
+  });
+
+  it('settles every queued task when they fail one after another', async () => {
+    const scheduler = createRequestScheduler(limits);
+    let aborted = false;
+    const runs = Array.from({ length: 5 }, (_, i) => scheduler.run(1, () => {
+      if (aborted) throw new Error('aborted');
+      if (i === 0) { aborted = true; return Promise.reject(new Error('failed')); }
+      return Promise.resolve(i);
+    }));
+
+    const settled = await Promise.allSettled(runs);
+    expect(settled.map(r => r.status)).toEqual(['rejected', 'rejected', 'rejected', 'rejected', 'rejected']);
+  });
+});
@@ -0,0 +1,127 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export interface RateLimits {
+  concurrency: number; // Max requests in flight at once
+  requestsPerMinute: number;
+  tokensPerMinute: number;
+}
+
+export const RATE_LIMIT_PRESETS: Record<'free' | 'paid', RateLimits> = {
+  free: { concurrency: 1, requestsPerMinute: 3, tokensPerMinute: 10000 },
+  paid: { concurrency: 3, requestsPerMinute: 30, tokensPerMinute: 1000000 },
+};
+
+export const DEFAULT_RATE_LIMITS: RateLimits = RATE_LIMIT_PRESETS.paid;
+
+/**
+ * Rough input token estimate used for the TPM budget.
+ * CJK characters are ~1 token each, other scripts ~4 characters per token.
+ */
+export const estimateTokens = (text: string): number => {
+  const cjk = (text.match(/[\u3000-\u9fff\uff00-\uffef]/g) || []).length;
+  return Math.ceil(cjk + (text.length - cjk) / 4);
+};
+
+interface QueuedRequest {
+  tokens: number;
+  start: () => void;
+}
+
+/**
+ * Creates a FIFO request scheduler that enforces a concurrency cap and a token-bucket
+ * RPM/TPM budget. Buckets start full and refill continuously, so short bursts are allowed
+ * while the per-minute average stays within the configured limits.
+ */
+export const createRequestScheduler = (initialLimits: RateLimits) => {
+  let limits = initialLimits;
+  let active = 0;
+  let requestAllowance = limits.requestsPerMinute;
+  let tokenAllowance = limits.tokensPerMinute;
+  let lastRefill = Date.now();
+  let pausedUntil = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  const queue: QueuedRequest[] = [];
+
+  const refill = () => {
+    const now = Date.now();
+    const elapsedMinutes = (now - lastRefill) / 60000;
+    lastRefill = now;
+    requestAllowance = Math.min(limits.requestsPerMinute, requestAllowance + elapsedMinutes * limits.requestsPerMinute);
+    tokenAllowance = Math.min(limits.tokensPerMinute, tokenAllowance + elapsedMinutes * limits.tokensPerMinute);
+  };
+
+  const wakeAfter = (ms: number) => {
+    timer = setTimeout(pump, Math.max(1, Math.ceil(ms)));
+  };
+
+  function pump() {
+    if (timer) {
+      clearTimeout(timer);
+      timer = null;
+    }
+    refill();
+
+    while (queue.length > 0 && active < limits.concurrency) {
+      const now = Date.now();
+      if (now < pausedUntil) {
+        wakeAfter(pausedUntil - now);
+        return;
+      }
+
+      // A single request larger than the whole budget would otherwise never run
+      const tokens = Math.min(queue[0].tokens, limits.tokensPerMinute);
+      if (requestAllowance < 1 || tokenAllowance < tokens) {
+        const requestWait = Math.max(0, 1 - requestAllowance) / limits.requestsPerMinute * 60000;
+        const tokenWait = Math.max(0, tokens - tokenAllowance) / limits.tokensPerMinute * 60000;
+        wakeAfter(Math.max(requestWait, tokenWait));
+        return;
+      }
+
+      requestAllowance -= 1;
+      tokenAllowance -= tokens;
+      active++;
+      queue.shift()!.start();
+    }
+  }
+
+  return {
+    /** Queues a request and resolves with its result once it has run within the budget. */
+    run<T>(estimatedTokens: number, task: () => Promise<T>): Promise<T> {
+      return new Promise<T>((resolve, reject) => {
+        queue.push({
+          tokens: estimatedTokens,
+          start: () => {
+            // A task that throws synchronously must still settle and give its slot back
+            Promise.resolve()
+              .then(task)
+              .then(resolve, reject)
+              .finally(() => {
+                active--;
+                pump();
+              });
+          },
+        });
+        pump();
+      });
+    },
+
+    /** Holds every queued request, e.g. after a 429 so all callers back off together. */
+    pause(ms: number) {
+      pausedUntil = Math.max(pausedUntil, Date.now() + ms);
+    },
+
+    configure(next: RateLimits) {
+      refill();
+      limits = next;
+      requestAllowance = Math.min(requestAllowance, limits.requestsPerMinute);
+      tokenAllowance = Math.min(tokenAllowance, limits.tokensPerMinute);
+      pump();
+    },
+  };
+};
+
+// Shared by every Gemini call (script generation and TTS) so they draw from one budget
+export const apiScheduler = createRequestScheduler(DEFAULT_RATE_LIMITS);
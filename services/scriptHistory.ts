@@ -0,0 +1,94 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { StructuredScript } from '../types';
+
+// Manual edits are grouped into steps; AI operations are always a step of their own
+export type HistoryStepKind =
+  | 'initial'
+  | 'open'
+  | 'edit'
+  | 'transcript'
+  | 'quick-fix'
+  | 'generate'
+  | 'regenerate';
+
+export interface HistoryEntry {
+  id: string;
+  kind: HistoryStepKind;
+  detail?: string; // e.g. the regenerated slide range
+  text: string;
+  structuredScript: StructuredScript | null; // Kept with the text so undo restores both
+  timestamp: number;
+}
+
+export interface ScriptHistory {
+  entries: HistoryEntry[];
+  index: number; // Entry currently shown
+}
+
+const MAX_HISTORY_ENTRIES = 100;
+// Keystrokes closer together than this are one undo step
+const EDIT_GROUP_MS = 1000;
+
+const createEntry = (
+  kind: HistoryStepKind,
+  text: string,
+  structuredScript: StructuredScript | null,
+  detail?: string
+): HistoryEntry => ({
+  id: Math.random().toString(36).substr(2, 9),
+  kind,
+  detail,
+  text,
+  structuredScript,
+  timestamp: Date.now(),
+});
+
+export const createHistory = (
+  text: string = '',
+  structuredScript: StructuredScript | null = null,
+  kind: HistoryStepKind = 'initial'
+): ScriptHistory => ({
+  entries: [createEntry(kind, text, structuredScript)],
+  index: 0,
+});
+
+/**
+ * Records a new version after the current one, discarding anything that had been undone.
+ * Consecutive manual edits in quick succession update the same step.
+ */
+export const pushHistory = (
+  history: ScriptHistory,
+  kind: HistoryStepKind,
+  text: string,
+  structuredScript: StructuredScript | null,
+  detail?: string
+): ScriptHistory => {
+  const current = history.entries[history.index];
+  if (current.text === text && current.structuredScript === structuredScript) return history;
+
+  const isLatest = history.index === history.entries.length - 1;
+  if (kind === 'edit' && current.kind === 'edit' && isLatest && Date.now() - current.timestamp < EDIT_GROUP_MS) {
+    const entries = [...history.entries];
+    entries[history.index] = { ...current, text, structuredScript, timestamp: Date.now() };
+    return { entries, index: history.index };
+  }
+
+  const entries = [...history.entries.slice(0, history.index + 1), createEntry(kind, text, structuredScript, detail)]
+    .slice(-MAX_HISTORY_ENTRIES);
+  return { entries, index: entries.length - 1 };
+};
+
+export const canUndo = (history: ScriptHistory): boolean => history.index > 0;
+export const canRedo = (history: ScriptHistory): boolean => history.index < history.entries.length - 1;
+
+/** Moves to any recorded version; later versions stay available for redo. */
+export const jumpToHistory = (history: ScriptHistory, index: number): ScriptHistory => ({
+  ...history,
+  index: Math.min(Math.max(0, index), history.entries.length - 1),
+});
+
+export const undoHistory = (history: ScriptHistory): ScriptHistory => jumpToHistory(history, history.index - 1);
+export const redoHistory = (history: ScriptHistory): ScriptHistory => jumpToHistory(history, history.index + 1);
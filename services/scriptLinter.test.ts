@@ -0,0 +1,88 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { CastMember } from '../types';
+import { applyQuickFix, hasBlockingDiagnostics, lintScript, ScriptDiagnostic } from './scriptLinter';
+
+const cast: CastMember[] = [
+  { id: 'Host', name: 'Aoi', role: 'host', voice: 'Kore' },
+  { id: 'Expert', name: 'Ren', role: 'expert', voice: 'Puck' },
+];
+
+const script = [
+  'Welcome to the show',       // 1: before any speaker
+  '[SLIDE 1]',                 // 2
+  'Aoi: Let us begin.',        // 3
+  '[SLIDE 3]',                 // 4: slide 2 is never discussed
+  'Ren: Moving on.',           // 5
+  'Bob: Can I join?',          // 6: not in the cast
+  '[SLIDE 2]',                 // 7: goes back
+  'Aoi: Back to two.',         // 8
+  '[SLIDE 9] Ren: Too far.',   // 9: past the end, with dialogue on the line
+  '[SLIDE 7]',                 // 10: past the end, alone
+].join('\n');
+
+const find = (diagnostics: ScriptDiagnostic[], code: string) => diagnostics.filter(d => d.code === code);
+
+describe('lintScript', () => {
+  const diagnostics = lintScript(script, cast, 3);
+
+  it('flags markers past the end of the PDF, keeping any dialogue on the line', () => {
+    expect(find(diagnostics, 'slide-out-of-range')).toEqual([
+      expect.objectContaining({ line: 9, severity: 'error', detail: '[SLIDE 9]', fix: { type: 'replace-line', line: 9, text: 'Ren: Too far.' } }),
+      expect.objectContaining({ line: 10, severity: 'error', detail: '[SLIDE 7]', fix: { type: 'delete-line', line: 10 } }),
+    ]);
+  });
+
+  it('flags a marker that goes back to an earlier slide', () => {
+    expect(find(diagnostics, 'slide-order')).toEqual([expect.objectContaining({ line: 7, detail: '[SLIDE 2]' })]);
+  });
+
+  it('flags text before any speaker label and offers to give it to the host', () => {
+    expect(find(diagnostics, 'unlabelled-line')).toEqual([
+      expect.objectContaining({ line: 1, severity: 'error', fix: { type: 'replace-line', line: 1, text: 'Aoi: Welcome to the show' } }),
+    ]);
+    expect(hasBlockingDiagnostics(diagnostics)).toBe(true);
+  });
+
+  it('flags labels that match nobody in the cast', () => {
+    expect(find(diagnostics, 'unknown-speaker')).toEqual([expect.objectContaining({ line: 6, severity: 'warning', detail: 'Bob' })]);
+  });
+
+  it('flags a page that is never discussed and offers a marker before the next slide', () => {
+    const script = ['[SLIDE 1]', 'Aoi: One.', '[SLIDE 3]', 'Ren: Three.'].join('\n');
+    expect(find(lintScript(script, cast, 3), 'slide-skipped')).toEqual([
+      expect.objectContaining({ line: 3, detail: '[SLIDE 2]', fix: { type: 'insert-line', line: 3, text: '[SLIDE 2]' } }),
+    ]);
+  });
+
+  it('appends a marker for trailing pages that are never discussed', () => {
+    const script = ['[SLIDE 1]', 'Aoi: One.'].join('\n');
+    expect(find(lintScript(script, cast, 2), 'slide-skipped')).toEqual([
+      expect.objectContaining({ line: 2, detail: '[SLIDE 2]', fix: { type: 'insert-line', line: 3, text: '[SLIDE 2]' } }),
+    ]);
+  });
+});
+
+describe('applyQuickFix', () => {
+  it.each([
+    ['slide-out-of-range', script, 3],
+    ['unlabelled-line', script, 3],
+    ['slide-skipped', ['[SLIDE 1]', 'Aoi: One.', '[SLIDE 3]', 'Ren: Three.'].join('\n'), 3],
+    ['slide-skipped', ['[SLIDE 1]', 'Aoi: One.'].join('\n'), 2],
+  ])('clears the %s diagnostic it was offered for', (code, text, totalSlides) => {
+    const offered = find(lintScript(text, cast, totalSlides), code);
+    expect(offered.length).toBeGreaterThan(0);
+    for (const diagnostic of offered) {
+      const fixed = applyQuickFix(text, diagnostic.fix!);
+      expect(find(lintScript(fixed, cast, totalSlides), code).map(d => d.detail)).not.toContain(diagnostic.detail);
+    }
+  });
+
+  it('leaves every other line as it was', () => {
+    const fixed = applyQuickFix(script, { type: 'delete-line', line: 10 });
+    expect(fixed).toBe(script.split('\n').slice(0, 9).join('\n'));
+  });
+});
@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CastMember } from '../types';
+import { buildSpeakerPatterns, SLIDE_MARKER } from './scriptParser';
+import { INTERJECTION_MARKER, PAUSE_MARKER } from './pauses';
+import { DELIVERY_MARKER } from './delivery';
+
+export type DiagnosticSeverity = 'error' | 'warning';
+
+export type DiagnosticCode =
+  | 'slide-out-of-range' // Marker points past the end of the PDF
+  | 'slide-skipped' // A page of the PDF is never discussed
+  | 'slide-order' // Marker goes back to an earlier slide
+  | 'unlabelled-line' // Text before any speaker label; the parser drops it
+  | 'unknown-speaker' // "Name:" label that matches nobody in the cast
+  | 'visual-description'; // Talks about how the slide looks, which the prompts forbid
+
+// Edits are plain data so they can be previewed and applied to whatever text is current.
+// Line numbers are 1-based; inserting at lines.length + 1 appends.
+export type QuickFix =
+  | { type: 'insert-line'; line: number; text: string }
+  | { type: 'replace-line'; line: number; text: string }
+  | { type: 'delete-line'; line: number };
+
+export interface ScriptDiagnostic {
+  line: number; // 1-based
+  severity: DiagnosticSeverity;
+  code: DiagnosticCode;
+  detail: string; // The marker, label or phrase concerned
+  fix?: QuickFix;
+}
+
+// Phrases the script prompts forbid: commentary on the slide's appearance or layout
+const VISUAL_PHRASES = [
+  /表紙が/, /背景/, /デザイン/, /レイアウト/, /フォント/, /配色/, /色使い/, /文字が大き/,
+  /(?:右|左)側には/, /次のページ/,
+  /\bbackground\b/i, /\bcolou?r(?:s|ful)?\b/i, /\blayout\b/i, /\bfonts?\b/i, /\bbig text\b/i,
+  /\bon the (?:left|right) side\b/i, /\bnext (?:page|slide)\b/i,
+];
+
+// "Label:" at the start of a line; short enough to be a name rather than a sentence
+const LABEL_LIKE = /^(?:\*\*)?([^\s:：*\d][^:：*\n]{0,23}?)(?:\*\*)?[:：]/;
+
+export const lintScript = (text: string, cast: CastMember[], totalSlides: number): ScriptDiagnostic[] => {
+  const diagnostics: ScriptDiagnostic[] = [];
+  const lines = text.split('\n');
+  const speakerPatterns = buildSpeakerPatterns(cast);
+  const markerPattern = new RegExp(SLIDE_MARKER.source, 'gi');
+  const pausePattern = new RegExp(PAUSE_MARKER.source, 'gi');
+  const deliveryPattern = new RegExp(DELIVERY_MARKER.source, 'gi');
+
+  const firstLineOfSlide = new Map<number, number>();
+  let previousSlide = 0;
+  let hasSpeaker = false;
+
+  lines.forEach((rawLine, index) => {
+    const lineNumber = index + 1;
+
+    for (const match of rawLine.matchAll(markerPattern)) {
+      const slide = parseInt(match[1], 10);
+      if (slide < 1 || (totalSlides > 0 && slide > totalSlides)) {
+        const remaining = rawLine.replace(match[0], '').trim();
+        diagnostics.push({
+          line: lineNumber,
+          severity: 'error',
+          code: 'slide-out-of-range',
+          detail: match[0],
+          fix: remaining
+            ? { type: 'replace-line', line: lineNumber, text: remaining }
+            : { type: 'delete-line', line: lineNumber },
+        });
+        continue;
+      }
+      if (slide < previousSlide) {
+        diagnostics.push({ line: lineNumber, severity: 'warning', code: 'slide-order', detail: match[0] });
+      }
+      if (!firstLineOfSlide.has(slide)) firstLineOfSlide.set(slide, lineNumber);
+      previousSlide = slide;
+    }
+
+    // Inspect the spoken part of the line the way the parser sees it
+    const content = rawLine.replace(markerPattern, '').replace(pausePattern, '').replace(INTERJECTION_MARKER, '')
+      .replace(deliveryPattern, '').trim();
+    if (!content) return;
+
+    if (speakerPatterns.some(p => p.label.test(content) || p.line.test(content))) {
+      hasSpeaker = true;
+    } else {
+      const label = content.match(LABEL_LIKE);
+      if (label) {
+        diagnostics.push({ line: lineNumber, severity: 'warning', code: 'unknown-speaker', detail: label[1].trim() });
+      } else if (!hasSpeaker && cast.length > 0) {
+        diagnostics.push({
+          line: lineNumber,
+          severity: 'error',
+          code: 'unlabelled-line',
+          detail: content.length > 30 ? `${content.slice(0, 30)}…` : content,
+          fix: { type: 'replace-line', line: lineNumber, text: `${cast[0].name}: ${content}` },
+        });
+      }
+    }
+
+    const visual = VISUAL_PHRASES.map(p => content.match(p)).find(Boolean);
+    if (visual) {
+      diagnostics.push({ line: lineNumber, severity: 'warning', code: 'visual-description', detail: visual[0] });
+    }
+  });
+
+  // Coverage: every page should be discussed, in order
+  if (totalSlides > 0 && firstLineOfSlide.size > 0) {
+    for (let slide = 1; slide <= totalSlides; slide++) {
+      if (firstLineOfSlide.has(slide)) continue;
+      // Insert before the next slide that is present, or append at the end
+      const nextSlide = [...firstLineOfSlide.keys()].filter(s => s > slide).sort((a, b) => a - b)[0];
+      const insertAt = nextSlide !== undefined ? firstLineOfSlide.get(nextSlide)! : lines.length + 1;
+      diagnostics.push({
+        line: Math.min(insertAt, lines.length),
+        severity: 'warning',
+        code: 'slide-skipped',
+        detail: `[SLIDE ${slide}]`,
+        fix: { type: 'insert-line', line: insertAt, text: `[SLIDE ${slide}]` },
+      });
+    }
+  }
+
+  return diagnostics.sort((a, b) => a.line - b.line);
+};
+
+export const applyQuickFix = (text: string, fix: QuickFix): string => {
+  const lines = text.split('\n');
+  const index = fix.line - 1;
+  switch (fix.type) {
+    case 'insert-line': lines.splice(index, 0, fix.text); break;
+    case 'replace-line': lines[index] = fix.text; break;
+    case 'delete-line': lines.splice(index, 1); break;
+  }
+  return lines.join('\n');
+};
+
+export const hasBlockingDiagnostics = (diagnostics: ScriptDiagnostic[]): boolean =>
+  diagnostics.some(d => d.severity === 'error');
@@ -0,0 +1,248 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CastMember, ScriptSection, ScriptSegment, SlideRange } from '../types';
+import { INTERJECTION_MARKER, MAX_PAUSE_SEC, PAUSE_MARKER } from './pauses';
+import { extractDelivery, extractEmphasis } from './delivery';
+
+const CHARS_PER_SEC = 15;
+
+export function escapeRegExp(string: string) {
+  return string.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Splits one speaker turn into sentence segments with estimated durations, continuing
+ * the timeline after the last segment already in `segments`. A `[PAUSE X]` marker sets
+ * the pause after the sentence before it, which may end the previous turn. A turn that
+ * starts with `[OVERLAP]` is an interjection, and `[DELIVERY ...]` directs how the whole
+ * turn is spoken. `*word*` stresses a word; the markers never reach the segment text.
+ * `turn` is the turn's index in the script, even when earlier turns yielded no segment.
+ */
+export const appendTurnSegments = (
+  segments: ScriptSegment[],
+  speaker: string,
+  slideIndex: number,
+  content: string,
+  turn: number
+): void => {
+  const last = segments[segments.length - 1];
+  let runningTime = last ? last.endTime : 0;
+
+  const interjection = INTERJECTION_MARKER.test(content);
+  const { content: directed, cues } = extractDelivery(content.replace(INTERJECTION_MARKER, ''));
+
+  // Odd parts are the seconds captured from pause markers
+  const parts = directed.split(new RegExp(PAUSE_MARKER.source, 'gi'));
+  parts.forEach((part, i) => {
+    if (i % 2 === 1) {
+      const previous = segments[segments.length - 1];
+      if (!previous) return;
+      previous.pauseAfter = Math.min(MAX_PAUSE_SEC, parseFloat(part));
+      runningTime = previous.endTime + previous.pauseAfter;
+      return;
+    }
+
+    // Robust Sentence Splitting
+    // Replace punctuation with "Punctuation + SplitMarker"
+    // 1. Japanese: 。！？ => add \n
+    let formatted = part.replace(/([。！？]+)/g, "$1\n");
+    // 2. English: .!? followed by space => add \n (avoids 3.14)
+    formatted = formatted.replace(/([.!?]+)(\s+)/g, "$1\n$2");
+
+    // Split and filter
+    const rawSentences = formatted.split('\n').map(s => s.trim()).filter(s => s.length > 0);
+
+    for (const sentence of rawSentences) {
+        const { text: cleanSentence, emphasis } = extractEmphasis(sentence);
+        const duration = Math.max(1.5, cleanSentence.length / CHARS_PER_SEC);
+        const segment: ScriptSegment = {
+          id: Math.random().toString(36).substr(2, 9),
+          slideIndex,
+          speaker,
+          text: cleanSentence,
+          startTime: runningTime,
+          endTime: runningTime + duration,
+          turn
+        };
+        if (interjection) segment.interjection = true;
+        if (cues.length > 0) segment.delivery = cues;
+        if (emphasis.length > 0) segment.emphasis = emphasis;
+        segments.push(segment);
+        runningTime += duration;
+    }
+  });
+};
+
+// Matches `[SLIDE X]` markers, including the bold variant some models emit
+export const SLIDE_MARKER = /\[(?:\*\*)?SLIDE\s+(\d+)(?:\*\*)?\]/i;
+
+export interface SpeakerPattern {
+  id: string;
+  label: RegExp; // "Name: text"
+  line: RegExp; // "Name" alone on a line
+}
+
+// Regex strategies, per cast member (matched by display name or speaker id such as "Host")
+export const buildSpeakerPatterns = (cast: CastMember[]): SpeakerPattern[] =>
+  cast.map(member => {
+    const names = [member.id, member.name].filter(Boolean).map(escapeRegExp).join('|');
+    return {
+      id: member.id,
+      // 1. Check for "Name:" pattern at start of line
+      label: new RegExp(`^(?:\\*\\*)?(?:${names})(?:\\*\\*)?[:：]`, 'i'),
+      // 2. Check for "Name" only line (exact match) - common in some Gemini outputs or copy-pastes
+      line: new RegExp(`^(?:\\*\\*)?(?:${names})(?:\\*\\*)?$`, 'i'),
+    };
+  });
+
+// --- Free-text Parsing ---
+// Recovers slides and speakers from `[SLIDE X]` markers and "Name:" labels
+
+/** A turn as read from free text, with where it sits there. */
+export interface ScannedTurn {
+  speaker: string; // CastMember.id
+  slideIndex: number;
+  content: string; // Without the name label
+  start: number; // Offsets of the turn's text in the script, label included
+  end: number;
+  labelled: boolean; // False for a line that continues the speaker named before it
+  wholeLine: boolean; // Nothing else (such as a slide marker) shares its line
+}
+
+export const scanScriptTurns = (fullText: string, cast: CastMember[]): ScannedTurn[] => {
+  const turns: ScannedTurn[] = [];
+  const speakerPatterns = buildSpeakerPatterns(cast);
+  const markerPattern = new RegExp(SLIDE_MARKER.source, 'gi');
+
+  let currentSlideIndex = 0;
+  let currentSpeaker: string | null = null;
+
+  const readLine = (part: string, offset: number, wholeLine: boolean) => {
+    const trimmed = part.trim();
+    if (!trimmed) return;
+
+    let content = trimmed;
+
+    // Check for label prefix first "Name: Text"
+    const labelled = speakerPatterns.find(p => p.label.test(trimmed));
+    if (labelled) {
+      currentSpeaker = labelled.id;
+      content = trimmed.replace(labelled.label, '').trim();
+    } else {
+      // Check for standalone name line "Name"
+      const nameLine = speakerPatterns.find(p => p.line.test(trimmed));
+      if (nameLine) {
+        currentSpeaker = nameLine.id;
+        return; // Skip this line, it's just a label
+      }
+    }
+
+    // If we have an identified speaker, it is their turn
+    if (currentSpeaker && content) {
+      const start = offset + part.indexOf(trimmed);
+      turns.push({
+        speaker: currentSpeaker,
+        slideIndex: currentSlideIndex,
+        content,
+        start,
+        end: start + trimmed.length,
+        labelled: Boolean(labelled),
+        wholeLine,
+      });
+    }
+  };
+
+  let lineStart = 0;
+  for (const line of fullText.split('\n')) {
+    // A marker may share a line with dialogue; the text on either side reads as lines of its own
+    const markers = [...line.matchAll(markerPattern)];
+    let cursor = 0;
+    for (const marker of markers) {
+      readLine(line.slice(cursor, marker.index), lineStart + cursor, false);
+      currentSlideIndex = Math.max(0, parseInt(marker[1], 10) - 1);
+      cursor = marker.index + marker[0].length;
+    }
+    readLine(line.slice(cursor), lineStart + cursor, markers.length === 0);
+    lineStart += line.length + 1;
+  }
+  return turns;
+};
+
+export const parseScriptToSegments = (fullText: string, cast: CastMember[]): ScriptSegment[] => {
+  const segments: ScriptSegment[] = [];
+  scanScriptTurns(fullText, cast).forEach((turn, i) => {
+    appendTurnSegments(segments, turn.speaker, turn.slideIndex, turn.content, i);
+  });
+  return segments;
+};
+
+// --- Slide Sections ---
+// A section runs from one `[SLIDE X]` marker up to the next; text before the first marker is the preamble
+
+interface SlideSection {
+  slide: number;
+  text: string; // Including its marker and trailing whitespace
+}
+
+const splitSlideSections = (fullText: string): { preamble: string, sections: SlideSection[] } => {
+  const markers = [...fullText.matchAll(new RegExp(SLIDE_MARKER.source, 'gi'))];
+  if (markers.length === 0) return { preamble: fullText, sections: [] };
+
+  return {
+    preamble: fullText.slice(0, markers[0].index),
+    sections: markers.map((marker, i) => ({
+      slide: parseInt(marker[1], 10),
+      text: fullText.slice(marker.index, markers[i + 1]?.index ?? fullText.length),
+    })),
+  };
+};
+
+const inRange = (slide: number, range: SlideRange) => slide >= range.from && slide <= range.to;
+
+/** The range plus up to `contextSlides` slides of dialogue on either side of it. */
+export const getScriptSection = (fullText: string, range: SlideRange, contextSlides: number = 2): ScriptSection => {
+  const { sections } = splitSlideSections(fullText);
+  const join = (list: SlideSection[]) => list.map(s => s.text.trim()).join('\n\n');
+  return {
+    ...range,
+    before: join(sections.filter(s => s.slide < range.from).slice(-contextSlides)),
+    after: join(sections.filter(s => s.slide > range.to).slice(0, contextSlides)),
+  };
+};
+
+/**
+ * Keeps only the part of a model response that belongs to the range; models sometimes
+ * repeat the context they were given. A response without markers belongs to the first slide.
+ */
+export const clampToSlideRange = (response: string, range: SlideRange): string => {
+  const { preamble, sections } = splitSlideSections(response.trim());
+  if (sections.length === 0) return `[SLIDE ${range.from}]\n${preamble.trim()}`;
+  return sections.filter(s => inRange(s.slide, range)).map(s => s.text.trim()).join('\n\n');
+};
+
+/**
+ * Replaces every section of the range with `replacement`, placed where the range started.
+ * If the range had no sections yet, it goes before the next later slide, or at the end.
+ */
+export const spliceSlideRange = (fullText: string, range: SlideRange, replacement: string): string => {
+  const { preamble, sections } = splitSlideSections(fullText);
+  const block = replacement.trim();
+  if (!block) return fullText;
+
+  let insertAt = sections.findIndex(s => inRange(s.slide, range));
+  if (insertAt < 0) insertAt = sections.findIndex(s => s.slide > range.to);
+
+  const pieces: string[] = [preamble];
+  sections.forEach((section, i) => {
+    if (i === insertAt) pieces.push(`${block}\n\n`);
+    if (!inRange(section.slide, range)) pieces.push(section.text);
+  });
+  if (insertAt < 0) {
+    const last = pieces[pieces.length - 1];
+    if (last.trim() && !last.endsWith('\n\n')) pieces.push(last.endsWith('\n') ? '\n' : '\n\n');
+    pieces.push(`${block}\n`);
+  }
+  return pieces.join('');
+};
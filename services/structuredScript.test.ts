@@ -0,0 +1,66 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { CastMember, StructuredScript } from '../types';
+import { removeCastMember, seatIdsAfterRemoval } from './cast';
+import { parseStructuredScript, remapScriptSpeakers, scriptFitsCast, structuredScriptToSegments } from './structuredScript';
+
+const cast: CastMember[] = [
+  { id: 'Host', name: 'Aoi', role: 'host', voice: 'Kore' },
+  { id: 'Expert', name: 'Ren', role: 'expert', voice: 'Puck' },
+  { id: 'Guest', name: 'Mei', role: 'guest', voice: 'Leda' },
+  { id: 'Panelist', name: 'Sora', role: 'panelist', voice: 'Fenrir' },
+];
+
+const script = (speakers: string[]): StructuredScript => ({
+  slides: [{ slide: 1, turns: speakers.map((speaker, i) => ({ speaker, text: `Line ${i}.` })) }],
+});
+
+describe('remapScriptSpeakers', () => {
+  it('keeps each line with its speaker when a seat before theirs is removed', () => {
+    const remapped = remapScriptSpeakers(script(['Host', 'Expert', 'Panelist']), seatIdsAfterRemoval(cast, 2));
+    const next = removeCastMember(cast, 2);
+    expect(remapped).not.toBeNull();
+    const names = structuredScriptToSegments(remapped!).map(segment => next.find(m => m.id === segment.speaker)?.name);
+    expect(names).toEqual(['Aoi', 'Ren', 'Sora']);
+    expect(scriptFitsCast(remapped!, next)).toBe(true);
+  });
+
+  it('drops the structure when the removed seat has lines', () => {
+    expect(remapScriptSpeakers(script(['Host', 'Guest', 'Panelist']), seatIdsAfterRemoval(cast, 2))).toBeNull();
+  });
+});
+
+describe('scriptFitsCast', () => {
+  it('rejects a structure naming a seat the cast no longer has', () => {
+    expect(scriptFitsCast(script(['Host', 'Panelist']), cast.slice(0, 2))).toBe(false);
+  });
+});
+
+describe('parseStructuredScript', () => {
+  it('normalizes speakers to ids and turns a delivery field into a marker', () => {
+    const raw = '```json\n' + JSON.stringify({
+      slides: [{ slide: 2, turns: [{ speaker: 'aoi', text: ' Hi. ', delivery: 'warm, slower' }, { speaker: 'Expert', text: '' }, 'stray'] }],
+    }) + '\n```';
+    expect(parseStructuredScript(raw, cast)).toEqual({
+      slides: [{ slide: 2, turns: [{ speaker: 'Host', text: '[DELIVERY warm, slower] Hi.' }] }],
+    });
+  });
+
+  it('numbers slides by position when the page number is not a positive integer', () => {
+    const raw = JSON.stringify({ slides: [{ slide: '3', turns: [] }, { slide: 1.5, turns: [] }] });
+    expect(parseStructuredScript(raw, cast).slides.map(slide => slide.slide)).toEqual([1, 2]);
+  });
+
+  it.each([
+    ['not json', 'Script response is not valid JSON.'],
+    ['[]', 'Script response has no slides.'],
+    ['{"slides": {}}', 'Script response has no slides.'],
+    ['{"slides": [null]}', 'Slide entry 1 has no turns.'],
+    ['{"slides": [{"turns": [{"speaker": "Nobody", "text": "Hi."}]}]}', 'Unknown speaker "Nobody" on slide 1.'],
+  ])('rejects %s', (raw, message) => {
+    expect(() => parseStructuredScript(raw, cast)).toThrow(message);
+  });
+});
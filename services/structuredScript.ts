@@ -0,0 +1,143 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CastMember, ScriptSegment, ScriptSlide, SlideRange, StructuredScript } from '../types';
+import { appendTurnSegments } from './scriptParser';
+import { formatDeliveryMarker, parseDeliveryCues } from './delivery';
+
+/** JSON Schema for generated scripts: slides in order, each with the turns spoken over it. */
+export const scriptResponseSchema = (cast: CastMember[]) => ({
+  type: 'object',
+  properties: {
+    slides: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          slide: { type: 'integer', description: '1-based page number of the slide being discussed' },
+          turns: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: {
+                speaker: { type: 'string', enum: cast.map(m => m.name) },
+                text: { type: 'string', description: 'What the speaker says, without a name label' },
+                delivery: { type: 'string', description: 'Optional comma-separated delivery direction, e.g. "excited, slower"' },
+              },
+              required: ['speaker', 'text'],
+            },
+          },
+        },
+        required: ['slide', 'turns'],
+      },
+    },
+  },
+  required: ['slides'],
+});
+
+// Shapes of untrusted model output, narrowed step by step below
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isTurnWithText = (value: unknown): value is Record<string, unknown> & { text: string } =>
+  isRecord(value) && typeof value.text === 'string' && value.text.trim() !== '';
+
+/**
+ * Parses and validates a model response against the script schema. Speakers may be given
+ * by display name or speaker id and are normalized to ids.
+ */
+export const parseStructuredScript = (raw: string, cast: CastMember[]): StructuredScript => {
+  // Some servers wrap JSON in a Markdown fence even in JSON mode
+  const json = raw.trim().replace(/^```(?:json)?\s*/i, '').replace(/\s*```$/, '');
+
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new Error("Script response is not valid JSON.");
+  }
+  if (!isRecord(data) || !Array.isArray(data.slides)) throw new Error("Script response has no slides.");
+  const slides: unknown[] = data.slides;
+
+  const findSpeaker = (name: unknown) => {
+    const key = String(name).trim().toLowerCase();
+    return cast.find(m => m.name.toLowerCase() === key || m.id.toLowerCase() === key);
+  };
+
+  return {
+    slides: slides.map((slide, i) => {
+      if (!isRecord(slide) || !Array.isArray(slide.turns)) throw new Error(`Slide entry ${i + 1} has no turns.`);
+      const turns: unknown[] = slide.turns;
+      const pageNumber = typeof slide.slide === 'number' && Number.isInteger(slide.slide) && slide.slide > 0 ? slide.slide : i + 1;
+      return {
+        slide: pageNumber,
+        turns: turns
+          .filter(isTurnWithText)
+          .map(turn => {
+            const member = findSpeaker(turn.speaker);
+            if (!member) throw new Error(`Unknown speaker "${turn.speaker}" on slide ${pageNumber}.`);
+            // A structured direction becomes the same marker a hand-written one would be
+            const cues = typeof turn.delivery === 'string' ? parseDeliveryCues(turn.delivery) : [];
+            const text = turn.text.trim();
+            return { speaker: member.id, text: cues.length > 0 ? `${formatDeliveryMarker(cues)} ${text}` : text };
+          }),
+      };
+    }),
+  };
+};
+
+/** Maps the structure straight to segments, with no label or marker recovery involved. */
+export const structuredScriptToSegments = (script: StructuredScript): ScriptSegment[] => {
+  const segments: ScriptSegment[] = [];
+  script.slides
+    .flatMap(slide => slide.turns.map(turn => ({ ...turn, slideIndex: slide.slide - 1 })))
+    .forEach((turn, i) => appendTurnSegments(segments, turn.speaker, turn.slideIndex, turn.text, i));
+  return segments;
+};
+
+/** Whether every turn's speaker is still in the cast; a structure that fails this is stale. */
+export const scriptFitsCast = (script: StructuredScript, cast: CastMember[]): boolean =>
+  script.slides.every(slide => slide.turns.every(turn => cast.some(m => m.id === turn.speaker)));
+
+/**
+ * Follows a cast edit that renumbered seats: `ids` maps old speaker ids to new ones. Null when
+ * a speaker lost their seat, as the structure no longer says whose lines those are.
+ */
+export const remapScriptSpeakers = (script: StructuredScript, ids: Map<string, string>): StructuredScript | null => {
+  const speakers = script.slides.flatMap(slide => slide.turns.map(turn => turn.speaker));
+  if (!speakers.every(speaker => ids.has(speaker))) return null;
+  return {
+    slides: script.slides.map(slide => ({
+      ...slide,
+      turns: slide.turns.map(turn => ({ ...turn, speaker: ids.get(turn.speaker)! })),
+    })),
+  };
+};
+
+/** Human-readable rendering in the same `[SLIDE X]` / "Name:" format the text parser reads. */
+export const renderStructuredScript = (script: StructuredScript, cast: CastMember[]): string =>
+  script.slides
+    .map(slide => [
+      `[SLIDE ${slide.slide}]`,
+      ...slide.turns.map(turn => `${cast.find(m => m.id === turn.speaker)?.name ?? turn.speaker}: ${turn.text}`),
+    ].join('\n'))
+    .join('\n\n');
+
+/** Structured counterpart of spliceSlideRange: swaps the range's slides for those of `replacement`. */
+export const spliceStructuredSlides = (
+  script: StructuredScript,
+  range: SlideRange,
+  replacement: StructuredScript
+): StructuredScript => {
+  const isInRange = (slide: ScriptSlide) => slide.slide >= range.from && slide.slide <= range.to;
+  const incoming = replacement.slides.filter(isInRange);
+
+  let insertAt = script.slides.findIndex(isInRange);
+  if (insertAt < 0) insertAt = script.slides.findIndex(s => s.slide > range.to);
+  if (insertAt < 0) insertAt = script.slides.length;
+
+  const kept = script.slides.filter(s => !isInRange(s));
+  const keptBefore = script.slides.slice(0, insertAt).filter(s => !isInRange(s)).length;
+  return { slides: [...kept.slice(0, keptBefore), ...incoming, ...kept.slice(keptBefore)] };
+};
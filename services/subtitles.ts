@@ -0,0 +1,121 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { ScriptSegment } from '../types';
+
+export type SubtitleFormat = 'srt' | 'vtt';
+
+export interface SubtitleOptions {
+  // When set, each cue is prefixed with the speaker's display name (e.g. "こはく: ...")
+  speakerNames?: Record<ScriptSegment['speaker'], string>;
+}
+
+interface Cue {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Cues wider than this (two lines of ~42 half-width columns) are split at sentence boundaries
+const MAX_CUE_WIDTH = 84;
+
+const pad = (n: number, width: number = 2) => n.toString().padStart(width, '0');
+
+function formatTimestamp(seconds: number, separator: ',' | '.'): string {
+  const totalMs = Math.max(0, Math.round(seconds * 1000));
+  const h = Math.floor(totalMs / 3600000);
+  const m = Math.floor((totalMs % 3600000) / 60000);
+  const s = Math.floor((totalMs % 60000) / 1000);
+  const ms = totalMs % 1000;
+  return `${pad(h)}:${pad(m)}:${pad(s)}${separator}${pad(ms, 3)}`;
+}
+
+// Full-width (CJK) characters take two columns on screen
+const displayWidth = (text: string) =>
+  Array.from(text).reduce((acc, ch) => acc + (/[\u3000-\u9fff\uff00-\uffef]/.test(ch) ? 2 : 1), 0);
+
+// Same sentence boundaries as the script parser: Japanese 。！？ and English .!? followed by a space
+function splitSentences(text: string): string[] {
+  return text
+    .replace(/([。！？]+)/g, "$1\n")
+    .replace(/([.!?]+)(\s+)/g, "$1\n$2")
+    .split('\n')
+    .map(s => s.trim())
+    .filter(s => s.length > 0);
+}
+
+/**
+ * Breaks merged segments back into caption-sized cues.
+ * Time within a segment is distributed proportionally to character count.
+ */
+function buildCues(segments: ScriptSegment[], options: SubtitleOptions): Cue[] {
+  const cues: Cue[] = [];
+
+  for (const seg of segments) {
+    const prefix = options.speakerNames ? `${options.speakerNames[seg.speaker] ?? seg.speaker}: ` : '';
+    const sentences = splitSentences(seg.text);
+
+    // Group sentences into chunks that fit within MAX_CUE_WIDTH
+    const chunks: string[] = [];
+    let current = '';
+    for (const sentence of sentences) {
+      const joiner = current && !/[。！？]$/.test(current) ? ' ' : '';
+      if (current && displayWidth(current + joiner + sentence) > MAX_CUE_WIDTH) {
+        chunks.push(current);
+        current = sentence;
+      } else {
+        current += joiner + sentence;
+      }
+    }
+    if (current) chunks.push(current);
+
+    const totalChars = chunks.reduce((acc, c) => acc + c.length, 0) || 1;
+    const duration = seg.endTime - seg.startTime;
+    let cursor = seg.startTime;
+
+    chunks.forEach((chunk, i) => {
+      const end = i === chunks.length - 1 ? seg.endTime : cursor + duration * (chunk.length / totalChars);
+      cues.push({ start: cursor, end, text: prefix + chunk });
+      cursor = end;
+    });
+  }
+
+  return cues;
+}
+
+export function segmentsToSrt(segments: ScriptSegment[], options: SubtitleOptions = {}): string {
+  return buildCues(segments, options)
+    .map((cue, i) => `${i + 1}\n${formatTimestamp(cue.start, ',')} --> ${formatTimestamp(cue.end, ',')}\n${cue.text}\n`)
+    .join('\n');
+}
+
+export function segmentsToWebVtt(segments: ScriptSegment[], options: SubtitleOptions = {}): string {
+  const body = buildCues(segments, options)
+    .map(cue => `${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
+
+/**
+ * Builds a WebVTT chapters track with one cue per slide, spanning from the first
+ * to the last segment spoken over that slide.
+ */
+export function segmentsToChapterVtt(segments: ScriptSegment[], slideLabel: string = 'Slide'): string {
+  const chapters: Cue[] = [];
+
+  for (const seg of segments) {
+    const last = chapters[chapters.length - 1];
+    const title = `${slideLabel} ${seg.slideIndex + 1}`;
+    if (last && last.text === title) {
+      last.end = seg.endTime;
+    } else {
+      chapters.push({ start: seg.startTime, end: seg.endTime, text: title });
+    }
+  }
+
+  const body = chapters
+    .map((cue, i) => `chapter-${i + 1}\n${formatTimestamp(cue.start, '.')} --> ${formatTimestamp(cue.end, '.')}\n${cue.text}\n`)
+    .join('\n');
+  return `WEBVTT\n\n${body}`;
+}
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { normalizeForSpeech } from './textNormalizer';
+
+describe('normalizeForSpeech', () => {
+  it.each([
+    ['¥1.2B', '12億円', '1.2 billion yen'],
+    ['35%', '35パーセント', '35 percent'],
+    ['FY2024 Q3', '2024年度 第3四半期', 'fiscal year 2024 third quarter'],
+    ['FY2024Q3', '2024年度第3四半期', 'fiscal year 2024 third quarter'],
+    ['2026/10/19', '2026年10月19日', 'October 19, 2026'],
+    ['3.14x', '3.14倍', '3.14 times'],
+    ['$1', '1ドル', '1 dollar'],
+    ['+12%', 'プラス12パーセント', 'plus 12 percent'],
+    ['2024–2026', '2024から2026', '2024 to 2026'],
+  ])('reads %s out', (written, ja, en) => {
+    expect(normalizeForSpeech(written, 'ja')).toBe(ja);
+    expect(normalizeForSpeech(written, 'en')).toBe(en);
+  });
+
+  it('keeps English words apart from what they now touch', () => {
+    expect(normalizeForSpeech('Sales rose 10-20 units', 'en')).toBe('Sales rose 10 to 20 units');
+  });
+
+  // Names, formulas and phone numbers look like ranges, signs or halves but are read as written
+  it.each(['COVID-19', 'GPT-4', 'H2O', '03-1234-5678', '090-1234-5678', 'pages 3-4-5'])('leaves %s as written', (written) => {
+    expect(normalizeForSpeech(written, 'ja')).toBe(written);
+    expect(normalizeForSpeech(written, 'en')).toBe(written);
+  });
+});
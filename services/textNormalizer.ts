@@ -0,0 +1,215 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { PronunciationEntry } from '../types';
+import { INTERJECTION_MARKER, PAUSE_MARKER } from './pauses';
+import { applyPronunciations } from './pronunciation';
+import { extractDelivery, extractEmphasis } from './delivery';
+
+type Language = 'ja' | 'en';
+
+// A rule rewrites every match of `pattern`; returning undefined keeps the match as written
+interface NormalizationRule {
+  pattern: RegExp;
+  speak: Record<Language, (...groups: string[]) => string | undefined>;
+}
+
+const NUMBER = String.raw`(\d{1,3}(?:,\d{3})+(?:\.\d+)?|\d+(?:\.\d+)?)`;
+// Keeps a rule from starting or ending inside a longer word or number
+const START = String.raw`(?<![A-Za-z0-9.,])`;
+const END = String.raw`(?![A-Za-z0-9])`;
+
+const EN_MONTHS = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const EN_ORDINALS = ['first', 'second', 'third', 'fourth'];
+
+const SCALES: Record<string, { exponent: number, en: string }> = {
+  K: { exponent: 3, en: 'thousand' },
+  M: { exponent: 6, en: 'million' },
+  B: { exponent: 9, en: 'billion' },
+  T: { exponent: 12, en: 'trillion' },
+};
+
+const CURRENCIES: Record<string, { ja: string, en: string, enSingular: string }> = {
+  '$': { ja: 'ドル', en: 'dollars', enSingular: 'dollar' },
+  '¥': { ja: '円', en: 'yen', enSingular: 'yen' },
+  '￥': { ja: '円', en: 'yen', enSingular: 'yen' },
+  '€': { ja: 'ユーロ', en: 'euros', enSingular: 'euro' },
+  '£': { ja: 'ポンド', en: 'pounds', enSingular: 'pound' },
+};
+
+const UNITS: Record<string, { ja: string, en: string }> = {
+  KB: { ja: 'キロバイト', en: 'kilobytes' },
+  MB: { ja: 'メガバイト', en: 'megabytes' },
+  GB: { ja: 'ギガバイト', en: 'gigabytes' },
+  TB: { ja: 'テラバイト', en: 'terabytes' },
+  ms: { ja: 'ミリ秒', en: 'milliseconds' },
+  mm: { ja: 'ミリメートル', en: 'millimeters' },
+  cm: { ja: 'センチメートル', en: 'centimeters' },
+  km: { ja: 'キロメートル', en: 'kilometers' },
+  kg: { ja: 'キログラム', en: 'kilograms' },
+  kWh: { ja: 'キロワットアワー', en: 'kilowatt hours' },
+  '°C': { ja: '度', en: 'degrees Celsius' },
+};
+
+const JA_GROUPS = ['', '万', '億', '兆', '京'];
+
+// Multiplies a decimal string by 10^exponent without floating-point error ("1.25", 9 -> "1250000000")
+const shiftDecimal = (value: string, exponent: number): string => {
+  const [whole, fraction = ''] = value.replace(/,/g, '').split('.');
+  const digits = (whole + fraction.padEnd(exponent, '0')).replace(/^0+(?=\d)/, '');
+  const point = whole.length + exponent;
+  const integer = digits.slice(0, point).replace(/^0+(?=\d)/, '') || '0';
+  const rest = digits.slice(point).replace(/0+$/, '');
+  return rest ? `${integer}.${rest}` : integer;
+};
+
+// Japanese counts in groups of four digits: 1250000000 -> "12億5000万"
+const toJapaneseNumber = (value: string): string => {
+  const [integer, fraction] = value.replace(/,/g, '').split('.');
+  let spoken = '';
+  for (let end = integer.length, group = 0; end > 0; end -= 4, group++) {
+    const digits = integer.slice(Math.max(0, end - 4), end).replace(/^0+/, '');
+    if (digits && group < JA_GROUPS.length) spoken = digits + JA_GROUPS[group] + spoken;
+  }
+  return (spoken || '0') + (fraction ? `.${fraction}` : '');
+};
+
+const validDate = (month: string, day?: string) =>
+  +month >= 1 && +month <= 12 && (day === undefined || (+day >= 1 && +day <= 31));
+
+const fullYear = (year: string) => year.length === 2 ? `20${year}` : year;
+
+// Order matters: dates before ranges and signs, currencies before bare scales
+const RULES: NormalizationRule[] = [
+  {
+    // 2026/10/19, 2026-10-19, 2026.10.19
+    pattern: new RegExp(String.raw`${START}(\d{4})([/.-])(\d{1,2})\2(\d{1,2})${END}`, 'g'),
+    speak: {
+      ja: (year, _, month, day) => validDate(month, day) ? `${year}年${+month}月${+day}日` : undefined,
+      en: (year, _, month, day) => validDate(month, day) ? `${EN_MONTHS[+month - 1]} ${+day}, ${year}` : undefined,
+    },
+  },
+  {
+    // 2026/10
+    pattern: new RegExp(String.raw`${START}(\d{4})/(\d{1,2})(?![A-Za-z0-9/])`, 'g'),
+    speak: {
+      ja: (year, month) => validDate(month) ? `${year}年${+month}月` : undefined,
+      en: (year, month) => validDate(month) ? `${EN_MONTHS[+month - 1]} ${year}` : undefined,
+    },
+  },
+  {
+    // FY2024, FY24
+    pattern: new RegExp(String.raw`(?<![A-Za-z0-9])FY\s?(\d{4}|\d{2})(?![0-9])`, 'g'),
+    speak: {
+      ja: year => `${fullYear(year)}年度`,
+      en: year => `fiscal year ${fullYear(year)}`,
+    },
+  },
+  {
+    // Q3, 3Q (also right after a fiscal year, as in "FY2024Q3")
+    pattern: new RegExp(String.raw`(?<![A-Za-z])Q([1-4])${END}|${START}([1-4])Q${END}`, 'g'),
+    speak: {
+      ja: (q1, q2) => `第${q1 || q2}四半期`,
+      en: (q1, q2) => `${EN_ORDINALS[+(q1 || q2) - 1]} quarter`,
+    },
+  },
+  {
+    // H1, 1H
+    pattern: new RegExp(String.raw`(?<![A-Za-z])H([12])${END}|${START}([12])H${END}`, 'g'),
+    speak: {
+      ja: (h1, h2) => (h1 || h2) === '1' ? '上期' : '下期',
+      en: (h1, h2) => (h1 || h2) === '1' ? 'first half' : 'second half',
+    },
+  },
+  {
+    // $1.2B, ¥3,000
+    pattern: new RegExp(String.raw`([$¥￥€£])\s?${NUMBER}([KMBT])?${END}`, 'g'),
+    speak: {
+      ja: (symbol, value, scale) =>
+        toJapaneseNumber(scale ? shiftDecimal(value, SCALES[scale].exponent) : value) + CURRENCIES[symbol].ja,
+      en: (symbol, value, scale) => {
+        if (scale) return `${value} ${SCALES[scale].en} ${CURRENCIES[symbol].en}`;
+        return `${value} ${value === '1' ? CURRENCIES[symbol].enSingular : CURRENCIES[symbol].en}`;
+      },
+    },
+  },
+  {
+    // 1.2B users, 500K
+    pattern: new RegExp(String.raw`${START}${NUMBER}([KMBT]|k)${END}`, 'g'),
+    speak: {
+      ja: (value, scale) => toJapaneseNumber(shiftDecimal(value, SCALES[scale.toUpperCase()].exponent)),
+      en: (value, scale) => `${value} ${SCALES[scale.toUpperCase()].en}`,
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`${NUMBER}\s?[%％]`, 'g'),
+    speak: {
+      ja: value => `${value}パーセント`,
+      en: value => `${value} percent`,
+    },
+  },
+  {
+    // 3.14x, 2×
+    pattern: new RegExp(String.raw`${START}${NUMBER}[x×]${END}`, 'g'),
+    speak: {
+      ja: value => `${value}倍`,
+      en: value => `${value} times`,
+    },
+  },
+  {
+    pattern: new RegExp(String.raw`${START}${NUMBER}\s?(${Object.keys(UNITS).join('|')})${END}`, 'g'),
+    speak: {
+      ja: (value, unit) => `${value}${UNITS[unit].ja}`,
+      en: (value, unit) => `${value} ${value === '1' ? UNITS[unit].en.replace(/s\b/, '') : UNITS[unit].en}`,
+    },
+  },
+  {
+    // 10-20, 2024–2026; phone numbers and other dash chains stay as written
+    pattern: new RegExp(String.raw`(?<![\d.,-])${NUMBER}\s?[-–〜~]\s?${NUMBER}(?![\d-])`, 'g'),
+    speak: {
+      ja: (from, to) => `${from}から${to}`,
+      en: (from, to) => `${from} to ${to}`,
+    },
+  },
+  {
+    // +12%, -3 (but not a dash between words or numbers)
+    pattern: new RegExp(String.raw`(?<![A-Za-z0-9])([+＋±\-−])(?=\d)`, 'g'),
+    speak: {
+      ja: sign => sign === '±' ? 'プラスマイナス' : /[+＋]/.test(sign) ? 'プラス' : 'マイナス',
+      en: sign => sign === '±' ? 'plus or minus' : /[+＋]/.test(sign) ? 'plus' : 'minus',
+    },
+  },
+];
+
+/**
+ * Expands numbers, units, currencies and dates that voices read inconsistently ("¥1.2B",
+ * "FY2024 Q3", "2026/10/19") into words for the given language. For the TTS request only.
+ */
+export const normalizeForSpeech = (text: string, language: Language): string => {
+  let result = text;
+  for (const { pattern, speak } of RULES) {
+    result = result.replace(pattern, (match, ...args) => {
+      const offset = args.findIndex(arg => typeof arg === 'number');
+      const groups = args.slice(0, offset);
+      const spoken = speak[language](...groups.map(group => group ?? ''));
+      if (spoken === undefined) return match;
+      if (language === 'ja') return spoken;
+      // Keep English words apart from whatever they now touch
+      const source = args[offset + 1] as string;
+      const before = source[args[offset] - 1];
+      const after = source[args[offset] + match.length];
+      return `${before && /[A-Za-z0-9]/.test(before) ? ' ' : ''}${spoken}${after && /[A-Za-z0-9]/.test(after) ? ' ' : ''}`;
+    });
+  }
+  return result;
+};
+
+/** What the voice is asked to say for a line: markers removed, glossary applied, then normalized. */
+export const toSpokenText = (text: string, pronunciations: PronunciationEntry[], language: Language): string => {
+  const withoutPauses = text.replace(new RegExp(PAUSE_MARKER.source, 'gi'), ' ').replace(INTERJECTION_MARKER, '');
+  const unmarked = extractEmphasis(extractDelivery(withoutPauses).content).text
+    .replace(/\s{2,}/g, ' ')
+    .trim();
+  return normalizeForSpeech(applyPronunciations(unmarked, pronunciations), language);
+};
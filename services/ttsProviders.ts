@@ -0,0 +1,133 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { TtsProvider, TtsSettings } from '../types';
+import { ALL_VOICES, VoiceData } from '../voices';
+import { geminiTtsProvider } from './geminiService';
+
+export const DEFAULT_TTS_SETTINGS: TtsSettings = {
+  provider: 'gemini',
+  httpEndpoint: 'http://localhost:8765',
+};
+
+const PCM_SAMPLE_RATE = 24000;
+
+function readString(bytes: Uint8Array, offset: number, length: number): string {
+  return String.fromCharCode(...bytes.subarray(offset, offset + length));
+}
+
+// Accepts either raw PCM or a WAV container, which must hold 16-bit mono PCM at the requested rate
+function extractPcm(bytes: Uint8Array, expectedSampleRate: number): Uint8Array {
+  if (bytes.length < 12 || readString(bytes, 0, 4) !== 'RIFF' || readString(bytes, 8, 4) !== 'WAVE') {
+    return bytes;
+  }
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const chunkId = readString(bytes, offset, 4);
+    const chunkSize = view.getUint32(offset + 4, true);
+    const body = offset + 8;
+
+    if (chunkId === 'fmt ') {
+      const format = view.getUint16(body, true);
+      const channels = view.getUint16(body + 2, true);
+      const sampleRate = view.getUint32(body + 4, true);
+      const bitsPerSample = view.getUint16(body + 14, true);
+      if (format !== 1 || channels !== 1 || bitsPerSample !== 16 || sampleRate !== expectedSampleRate) {
+        throw new Error(`TTS server must return 16-bit mono PCM at ${expectedSampleRate}Hz (got ${bitsPerSample}-bit, ${channels}ch, ${sampleRate}Hz).`);
+      }
+    } else if (chunkId === 'data') {
+      return bytes.slice(body, body + chunkSize);
+    }
+    offset = body + chunkSize + (chunkSize % 2);
+  }
+  throw new Error("WAV response has no data chunk.");
+}
+
+/**
+ * Talks to a self-hosted TTS server using a minimal protocol:
+ *
+ *   GET  {endpoint}/voices      -> [{ "name": "alice", "gender": "FEMALE", "style": "calm" }]
+ *   POST {endpoint}/synthesize  <- { "text": "...", "voice": "alice", "sampleRate": 24000, "instructions"?: "excited" }
+ *                               -> 16-bit mono PCM, raw or in a WAV container
+ */
+export const createHttpTtsProvider = (endpoint: string): TtsProvider => {
+  const baseUrl = endpoint.trim().replace(/\/+$/, '');
+
+  return {
+    id: 'http',
+    label: 'HTTP',
+    model: `http:${baseUrl}`,
+    capabilities: { sampleRate: PCM_SAMPLE_RATE, multiSpeaker: false, offline: true },
+
+    async listVoices() {
+      const response = await fetch(`${baseUrl}/voices`);
+      if (!response.ok) throw new Error(`Voice list request failed (${response.status}).`);
+      const voices: { name: string; gender?: VoiceData['ssmlGender']; style?: string }[] = await response.json();
+      return voices.map(v => ({ name: v.name, ssmlGender: v.gender ?? 'NEUTRAL', style: v.style ?? '' }));
+    },
+
+    async synthesize(text, voiceName, signal, instructions) {
+      const response = await fetch(`${baseUrl}/synthesize`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ text, voice: voiceName, sampleRate: PCM_SAMPLE_RATE, instructions }),
+        signal,
+      });
+      if (!response.ok) throw new Error(`TTS server returned ${response.status} ${response.statusText}.`);
+      return extractPcm(new Uint8Array(await response.arrayBuffer()), PCM_SAMPLE_RATE);
+    },
+  };
+};
+
+// FNV-1a, so each voice gets a stable pitch
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+const CHARS_PER_SEC = 15; // Same pacing estimate as the script parser
+
+/**
+ * Deterministic offline stand-in: a voice-specific tone, pulsed like syllables, lasting
+ * roughly as long as the text would take to say. Identical input always yields identical PCM.
+ */
+export const toneTtsProvider: TtsProvider = {
+  id: 'mock',
+  label: 'Tone Generator',
+  model: 'mock-tone-v1',
+  capabilities: { sampleRate: PCM_SAMPLE_RATE, multiSpeaker: false, offline: true },
+
+  listVoices: async () => ALL_VOICES,
+
+  async synthesize(text, voiceName) {
+    const duration = Math.max(0.5, Array.from(text).length / CHARS_PER_SEC);
+    const frameCount = Math.round(duration * PCM_SAMPLE_RATE);
+    const pitch = 140 + (hashString(voiceName) % 120); // 140-260Hz
+    const syllableRate = 4; // Pulses per second
+    const fadeFrames = Math.round(0.02 * PCM_SAMPLE_RATE);
+
+    const samples = new Int16Array(frameCount);
+    for (let i = 0; i < frameCount; i++) {
+      const t = i / PCM_SAMPLE_RATE;
+      const fade = Math.min(1, i / fadeFrames, (frameCount - 1 - i) / fadeFrames);
+      const syllable = 0.5 - 0.5 * Math.cos(2 * Math.PI * syllableRate * t);
+      samples[i] = Math.round(0.25 * fade * syllable * Math.sin(2 * Math.PI * pitch * t) * 0x7FFF);
+    }
+    return new Uint8Array(samples.buffer);
+  },
+};
+
+export const createTtsProvider = (settings: TtsSettings): TtsProvider => {
+  switch (settings.provider) {
+    case 'http': return createHttpTtsProvider(settings.httpEndpoint);
+    case 'mock': return toneTtsProvider;
+    default: return geminiTtsProvider;
+  }
+};
@@ -0,0 +1,73 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { describe, expect, it } from 'vitest';
+import { CastMember } from '../types';
+import { parseScriptToSegments } from './scriptParser';
+import { applyTurnsToScript, insertTurn, moveTurn, removeTurn, scriptTextToTurns, updateTurn } from './turnEditor';
+
+const cast: CastMember[] = [
+  { id: 'Host', name: 'Aoi', role: 'host', voice: 'Kore' },
+  { id: 'Guest', name: 'Ren', role: 'guest', voice: 'Puck' },
+];
+
+const script = [
+  'Notes for the recording, not spoken',
+  '[SLIDE 1]',
+  'Aoi: 今日は決算です。まず売上から。',
+  'Ren: [PAUSE 1.5]',
+  'Ren: よろしくお願いします。',
+  '[SLIDE 2]',
+  '[SLIDE 3]',
+  'Ren',
+  '*Revenue* grew.',
+  'Aoi: Nice.',
+].join('\n');
+
+describe('applyTurnsToScript', () => {
+  it('leaves the script untouched when no turn changed', () => {
+    expect(applyTurnsToScript(script, cast, scriptTextToTurns(script, cast))).toBe(script);
+  });
+
+  it('rewrites only the edited line', () => {
+    const turns = scriptTextToTurns(script, cast);
+    const index = turns.findIndex(turn => turn.text === 'Nice.');
+    const edited = applyTurnsToScript(script, cast, updateTurn(turns, index, { text: 'Very nice.' }));
+    expect(edited).toBe(script.replace('Aoi: Nice.', 'Aoi: Very nice.'));
+  });
+
+  it('labels a continuation line once the speaker before it is gone', () => {
+    const turns = scriptTextToTurns(script, cast);
+    const index = turns.findIndex(turn => turn.text === '*Revenue* grew.');
+    const edited = applyTurnsToScript(script, cast, insertTurn(turns, index, 'Host', 3).map((turn, i) =>
+      i === index ? { ...turn, text: 'Go on.' } : turn));
+    expect(scriptTextToTurns(edited, cast).map(turn => [turn.speaker, turn.slide, turn.text])).toEqual([
+      ['Host', 1, '今日は決算です。まず売上から。'],
+      ['Guest', 1, '[PAUSE 1.5]'],
+      ['Guest', 1, 'よろしくお願いします。'],
+      ['Host', 3, 'Go on.'],
+      ['Guest', 3, '*Revenue* grew.'],
+      ['Host', 3, 'Nice.'],
+    ]);
+    expect(edited).toContain('[SLIDE 2]\n[SLIDE 3]');
+  });
+
+  it('marks the slide of a moved turn and restores the one it left', () => {
+    const turns = scriptTextToTurns(script, cast);
+    const moved = moveTurn(removeTurn(turns, 1), 3, 1);
+    const edited = applyTurnsToScript(script, cast, moved);
+    expect(edited.startsWith('Notes for the recording, not spoken\n[SLIDE 1]\n')).toBe(true);
+    expect(scriptTextToTurns(edited, cast).map(turn => [turn.speaker, turn.slide, turn.text])).toEqual(
+      moved.map(turn => [turn.speaker, turn.slide, turn.text]));
+  });
+});
+
+describe('scriptTextToTurns', () => {
+  it('numbers turns as the parser numbers their segments, pause-only turns included', () => {
+    const turns = scriptTextToTurns(script, cast);
+    const segments = parseScriptToSegments(script, cast);
+    const first = segments.find(segment => segment.text === 'よろしくお願いします。');
+    expect(turns[first!.turn!].text).toBe('よろしくお願いします。');
+  });
+});
@@ -0,0 +1,234 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CastMember, StructuredScript } from '../types';
+import { INTERJECTION_MARKER, INTERJECTION_TAG } from './pauses';
+import { DELIVERY_MARKER, extractDelivery, formatDeliveryMarker } from './delivery';
+import { scanScriptTurns, SLIDE_MARKER } from './scriptParser';
+import { renderStructuredScript } from './structuredScript';
+import { getSpeakerName } from './cast';
+
+/** One speaker turn as edited in the transcript view: the structured script, flattened. */
+export interface EditableTurn {
+  speaker: string; // CastMember.id
+  slide: number; // 1-based
+  text: string;
+  source?: number; // Index of the script turn it was read from (ScriptSegment.turn); none for a new turn
+}
+
+// Japanese sentences run on without a space; everything else is joined with one
+const joinSentences = (a: string, b: string) =>
+  !a ? b : /[。！？、」』）]$/.test(a) ? `${a}${b}` : `${a} ${b}`;
+
+/** Reads turns from free text as written, markers and all, in the order the parser numbers them. */
+export const scriptTextToTurns = (text: string, cast: CastMember[]): EditableTurn[] =>
+  scanScriptTurns(text, cast).map((turn, i) => ({ speaker: turn.speaker, slide: turn.slideIndex + 1, text: turn.content, source: i }));
+
+export const structuredScriptToTurns = (script: StructuredScript): EditableTurn[] =>
+  script.slides
+    .flatMap(slide => slide.turns.map(turn => ({ speaker: turn.speaker, slide: slide.slide, text: turn.text })))
+    .map((turn, i) => ({ ...turn, source: i }));
+
+// Indices into `sources` of the longest subsequence that is still in increasing order
+const longestOrderedRun = (sources: number[]): Set<number> => {
+  const length = sources.map(() => 1);
+  const previous = sources.map(() => -1);
+  sources.forEach((source, i) => {
+    for (let j = 0; j < i; j++) {
+      if (sources[j] < source && length[j] + 1 > length[i]) {
+        length[i] = length[j] + 1;
+        previous[i] = j;
+      }
+    }
+  });
+  const run = new Set<number>();
+  for (let i = length.indexOf(Math.max(0, ...length)); i >= 0; i = previous[i]) run.add(i);
+  return run;
+};
+
+/**
+ * Writes edited turns back into free text. Turns that keep their place only have their own
+ * line rewritten, and only when changed, so labels, unparsed lines and empty slide markers
+ * stay as written. New and moved turns go in after the turn before them, with a slide marker
+ * where their slide differs.
+ */
+export const applyTurnsToScript = (text: string, cast: CastMember[], turns: EditableTurn[]): string => {
+  const original = scanScriptTurns(text, cast);
+  const edited = turns.filter(turn => turn.text.trim());
+  const render = (turn: EditableTurn) => `${getSpeakerName(cast, turn.speaker)}: ${turn.text.trim()}`;
+
+  // Turns that keep their place: the longest run still in script order and on their own slide
+  const candidates = edited.flatMap((turn, i) =>
+    turn.source !== undefined && original[turn.source]?.slideIndex === turn.slide - 1 ? [{ i, source: turn.source }] : []);
+  const run = longestOrderedRun(candidates.map(candidate => candidate.source));
+  const keptAt = new Map(candidates.filter((_, k) => run.has(k)).map(({ i, source }) => [i, source]));
+  const keptSources = new Set(keptAt.values());
+
+  const edits: { start: number, end: number, text: string }[] = [];
+
+  // Removed and moved turns leave; one alone on its line takes the line break with it
+  original.forEach((turn, source) => {
+    if (keptSources.has(source)) return;
+    if (!turn.wholeLine) {
+      edits.push({ start: turn.start, end: turn.end, text: '' });
+      return;
+    }
+    const lineStart = text.lastIndexOf('\n', turn.start - 1) + 1;
+    const lineBreak = text.indexOf('\n', turn.end);
+    edits.push(lineBreak >= 0
+      ? { start: lineStart, end: lineBreak + 1, text: '' }
+      : { start: Math.max(0, lineStart - 1), end: text.length, text: '' });
+  });
+
+  edited.forEach((turn, i) => {
+    const source = keptAt.get(i);
+    if (source === undefined) return;
+    const before = original[source];
+    // An unlabelled line belongs to whoever spoke last, who may not be the same speaker anymore
+    const relabel = !before.labelled && (i === 0 ? source !== 0 : keptAt.get(i - 1) !== source - 1);
+    if (relabel || turn.speaker !== before.speaker || turn.text.trim() !== before.content) {
+      edits.push({ start: before.start, end: before.end, text: render(turn) });
+    }
+  });
+
+  // Each run of new or moved turns goes after the kept turn before it, else before the one after it
+  const markerPattern = new RegExp(SLIDE_MARKER.source, 'gi');
+  for (let first = 0; first < edited.length; first++) {
+    if (keptAt.has(first)) continue;
+    let last = first;
+    while (last + 1 < edited.length && !keptAt.has(last + 1)) last++;
+    const inserted = edited.slice(first, last + 1);
+    const after = keptAt.has(first - 1) ? original[keptAt.get(first - 1)!] : undefined;
+    const next = keptAt.has(last + 1) ? original[keptAt.get(last + 1)!] : undefined;
+
+    let home: number;
+    if (after) home = after.slideIndex + 1;
+    else if (next) home = next.slideIndex + 1;
+    else home = Math.max(1, ...[...text.matchAll(markerPattern)].map(marker => parseInt(marker[1], 10)).slice(-1));
+
+    const lines: string[] = [];
+    let slide = home;
+    for (const turn of inserted) {
+      if (turn.slide !== slide) lines.push(`[SLIDE ${turn.slide}]`);
+      slide = turn.slide;
+      lines.push(render(turn));
+    }
+    // The kept turn that follows must still read as being on its own slide
+    const between = after && next ? text.slice(after.end, next.start) : '';
+    if (slide !== home && next && (!after || !new RegExp(SLIDE_MARKER.source, 'i').test(between))) {
+      lines.push(`[SLIDE ${home}]`);
+    }
+
+    if (after) {
+      edits.push({ start: after.end, end: after.end, text: lines.map(line => `\n${line}`).join('') });
+    } else if (next) {
+      edits.push({ start: next.start, end: next.start, text: lines.map(line => `${line}\n`).join('') });
+    } else {
+      const separator = text.trim() && !text.endsWith('\n') ? '\n' : '';
+      edits.push({ start: text.length, end: text.length, text: separator + lines.join('\n') });
+    }
+    first = last;
+  }
+
+  // Applied from the end so earlier offsets hold; a removed line may overlap the next one's break
+  let result = text;
+  let limit = text.length;
+  edits
+    .sort((a, b) => b.start - a.start || b.end - a.end)
+    .forEach(edit => {
+      const end = Math.min(edit.end, limit);
+      const start = Math.min(edit.start, end);
+      result = result.slice(0, start) + edit.text + result.slice(end);
+      limit = start;
+    });
+
+  // Whatever the splice produced must read back as exactly these turns; otherwise rewrite it all
+  const readBack = scanScriptTurns(result, cast);
+  const matches = readBack.length === edited.length && readBack.every((turn, i) =>
+    turn.speaker === edited[i].speaker && turn.slideIndex === edited[i].slide - 1 && turn.content === edited[i].text.trim());
+  return matches ? result : renderStructuredScript(turnsToStructuredScript(turns), cast);
+};
+
+/** Groups turns back into slides; a slide that comes up again later gets a new marker there. */
+export const turnsToStructuredScript = (turns: EditableTurn[]): StructuredScript => {
+  const slides: StructuredScript['slides'] = [];
+  for (const turn of turns) {
+    const text = turn.text.trim();
+    if (!text) continue;
+    const last = slides[slides.length - 1];
+    if (last && last.slide === turn.slide) last.turns.push({ speaker: turn.speaker, text });
+    else slides.push({ slide: turn.slide, turns: [{ speaker: turn.speaker, text }] });
+  }
+  return { slides };
+};
+
+export const updateTurn = (turns: EditableTurn[], index: number, changes: Partial<EditableTurn>): EditableTurn[] =>
+  turns.map((turn, i) => i === index ? { ...turn, ...changes } : turn);
+
+export const isInterjection = (turn: EditableTurn): boolean => INTERJECTION_MARKER.test(turn.text.trimStart());
+
+/** Adds or removes the `[OVERLAP]` marker that mixes a turn over the end of the one before. */
+export const toggleInterjection = (turns: EditableTurn[], index: number): EditableTurn[] => {
+  const turn = turns[index];
+  const text = isInterjection(turn)
+    ? turn.text.trimStart().replace(INTERJECTION_MARKER, '')
+    : `${INTERJECTION_TAG} ${turn.text.trimStart()}`;
+  return updateTurn(turns, index, { text });
+};
+
+export const getTurnDelivery = (turn: EditableTurn): string[] => extractDelivery(turn.text).cues;
+
+/** Replaces the turn's `[DELIVERY ...]` direction, keeping it after any `[OVERLAP]` marker. */
+export const setTurnDelivery = (turns: EditableTurn[], index: number, cues: string[]): EditableTurn[] => {
+  const turn = turns[index];
+  const body = turn.text.replace(new RegExp(DELIVERY_MARKER.source, 'gi'), '').trimStart();
+  const interjection = INTERJECTION_MARKER.test(body);
+  const rest = body.replace(INTERJECTION_MARKER, '');
+  const marker = cues.length > 0 ? `${formatDeliveryMarker(cues)} ` : '';
+  return updateTurn(turns, index, { text: `${interjection ? `${INTERJECTION_TAG} ` : ''}${marker}${rest}` });
+};
+
+/** Splits a turn at a character offset; both halves keep the speaker and slide, the tail is a new turn. */
+export const splitTurn = (turns: EditableTurn[], index: number, offset: number): EditableTurn[] => {
+  const turn = turns[index];
+  const head = turn.text.slice(0, offset).trim();
+  const tail = turn.text.slice(offset).trim();
+  if (!head || !tail) return turns;
+  const { source: _, ...rest } = turn;
+  return [
+    ...turns.slice(0, index),
+    { ...turn, text: head },
+    { ...rest, text: tail },
+    ...turns.slice(index + 1),
+  ];
+};
+
+/** Appends the next turn's text to this one, which keeps its own speaker and slide. */
+export const mergeWithNextTurn = (turns: EditableTurn[], index: number): EditableTurn[] => {
+  if (index < 0 || index >= turns.length - 1) return turns;
+  const merged = { ...turns[index], text: joinSentences(turns[index].text, turns[index + 1].text) };
+  return [...turns.slice(0, index), merged, ...turns.slice(index + 2)];
+};
+
+export const insertTurn = (turns: EditableTurn[], index: number, speaker: string, slide: number): EditableTurn[] => [
+  ...turns.slice(0, index),
+  { speaker, slide, text: '' },
+  ...turns.slice(index),
+];
+
+export const removeTurn = (turns: EditableTurn[], index: number): EditableTurn[] =>
+  turns.filter((_, i) => i !== index);
+
+/**
+ * Moves a turn to a new position. It joins the slide it is dropped into (that of the turn
+ * before it, or after it when dropped first), so reordering never scrambles the slides.
+ */
+export const moveTurn = (turns: EditableTurn[], from: number, to: number): EditableTurn[] => {
+  if (from === to || from < 0 || from >= turns.length) return turns;
+  const rest = turns.filter((_, i) => i !== from);
+  const target = Math.min(Math.max(0, to > from ? to - 1 : to), rest.length);
+  const neighbour = rest[target - 1] ?? rest[target];
+  const moved = { ...turns[from], slide: neighbour ? neighbour.slide : turns[from].slide };
+  return [...rest.slice(0, target), moved, ...rest.slice(target)];
+};
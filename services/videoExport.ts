@@ -0,0 +1,235 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import {
+  Output,
+  BufferTarget,
+  Mp4OutputFormat,
+  WebMOutputFormat,
+  CanvasSource,
+  AudioBufferSource,
+  Quality,
+  getFirstEncodableVideoCodec,
+  getFirstEncodableAudioCodec,
+} from 'mediabunny';
+import { CastMember, ScriptSegment } from '../types';
+import { getCastIndex, getSpeakerName, SEAT_COLORS } from './cast';
+import { resampleAudio } from './audioEncoder';
+
+export type VideoFormat = 'mp4' | 'webm';
+
+export interface VideoExportOptions {
+  slideImages: string[]; // Data URLs rendered by the PresentationViewer
+  segments: ScriptSegment[]; // Segments with exact timings from generateSequencedSpeech
+  audio: AudioBuffer;
+  format: VideoFormat;
+  burnSubtitles: boolean;
+  cast: CastMember[];
+  onProgress?: (progress: number) => void; // 0..1
+}
+
+const VIDEO_WIDTH = 1280;
+const VIDEO_HEIGHT = 720;
+// Slides are static, so a low frame rate keeps encoding fast while still
+// switching slides and subtitles within 100ms of the audio.
+const FRAME_RATE = 10;
+// Opus and AAC encoders expect 48kHz, Gemini TTS returns 24kHz
+const OUTPUT_SAMPLE_RATE = 48000;
+
+const loadImage = async (src: string): Promise<HTMLImageElement> => {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  return img;
+};
+
+// Finds the segment playing at time t, falling back to the last one that started
+// so slides don't flicker during gaps between segments. An interjection heard over
+// the main line is returned alongside it.
+function findSegmentAt(
+  segments: ScriptSegment[],
+  t: number
+): { segment: ScriptSegment | null; speaking: boolean; interjection: ScriptSegment | null } {
+  const playing = segments.filter(seg => t >= seg.startTime && t < seg.endTime);
+  if (playing.length > 0) {
+    const main = playing.find(seg => !seg.interjection) ?? playing[0];
+    return { segment: main, speaking: true, interjection: playing.find(seg => seg !== main) ?? null };
+  }
+  let last: ScriptSegment | null = null;
+  for (const seg of segments) {
+    if (seg.startTime <= t) last = seg;
+  }
+  return { segment: last ?? segments[0] ?? null, speaking: false, interjection: null };
+}
+
+// Greedy line wrapping that handles both space-delimited and CJK text
+function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const lines: string[] = [];
+  let line = '';
+  let lastBreak = -1;
+
+  for (const char of text) {
+    const candidate = line + char;
+    if (ctx.measureText(candidate).width <= maxWidth || line.length === 0) {
+      line = candidate;
+      if (char === ' ') lastBreak = line.length;
+      continue;
+    }
+    if (lastBreak > 0 && char !== ' ') {
+      lines.push(line.slice(0, lastBreak).trimEnd());
+      line = line.slice(lastBreak) + char;
+    } else {
+      lines.push(line.trimEnd());
+      line = char === ' ' ? '' : char;
+    }
+    lastBreak = -1;
+  }
+  if (line.trim()) lines.push(line.trim());
+  return lines;
+}
+
+function drawSlide(ctx: CanvasRenderingContext2D, img: HTMLImageElement | undefined) {
+  ctx.fillStyle = '#111827';
+  ctx.fillRect(0, 0, VIDEO_WIDTH, VIDEO_HEIGHT);
+  if (!img) return;
+
+  // object-contain
+  const scale = Math.min(VIDEO_WIDTH / img.naturalWidth, VIDEO_HEIGHT / img.naturalHeight);
+  const w = img.naturalWidth * scale;
+  const h = img.naturalHeight * scale;
+  ctx.drawImage(img, (VIDEO_WIDTH - w) / 2, (VIDEO_HEIGHT - h) / 2, w, h);
+}
+
+// Draws a speech bubble whose bottom edge sits at `bottom`; returns its top edge
+function drawSubtitle(
+  ctx: CanvasRenderingContext2D,
+  segment: ScriptSegment,
+  cast: CastMember[],
+  bottom: number = VIDEO_HEIGHT - 40
+): number {
+  const seat = Math.max(0, getCastIndex(cast, segment.speaker));
+  const speakerName = getSpeakerName(cast, segment.speaker);
+  const colors = SEAT_COLORS[seat % SEAT_COLORS.length];
+  const isHost = seat === 0; // The host speaks from the left, everyone else from the right
+  const margin = 40;
+  const padding = 20;
+  const maxBubbleWidth = VIDEO_WIDTH - margin * 2;
+  const lineHeight = 36;
+
+  ctx.font = 'bold 28px Helvetica, Arial, sans-serif';
+  const lines = wrapText(ctx, segment.text, maxBubbleWidth - padding * 2).slice(0, 3);
+  const textWidth = Math.max(...lines.map(l => ctx.measureText(l).width));
+
+  ctx.font = 'bold 16px Helvetica, Arial, sans-serif';
+  const nameWidth = ctx.measureText(speakerName.toUpperCase()).width;
+
+  const bubbleWidth = Math.min(maxBubbleWidth, Math.max(textWidth, nameWidth) + padding * 2);
+  const bubbleHeight = padding * 2 + 24 + lines.length * lineHeight;
+  const x = isHost ? margin : VIDEO_WIDTH - margin - bubbleWidth;
+  const y = bottom - bubbleHeight;
+
+  ctx.fillStyle = colors.bg;
+  ctx.strokeStyle = '#1A1A1A';
+  ctx.lineWidth = 3;
+  ctx.beginPath();
+  ctx.roundRect(x, y, bubbleWidth, bubbleHeight, isHost ? [12, 12, 12, 0] : [12, 12, 0, 12]);
+  ctx.fill();
+  ctx.stroke();
+
+  ctx.fillStyle = colors.fg;
+  ctx.textBaseline = 'top';
+  ctx.globalAlpha = 0.8;
+  ctx.fillText(speakerName.toUpperCase(), x + padding, y + padding);
+  ctx.globalAlpha = 1;
+
+  ctx.font = 'bold 28px Helvetica, Arial, sans-serif';
+  lines.forEach((line, i) => {
+    ctx.fillText(line, x + padding, y + padding + 24 + i * lineHeight);
+  });
+  return y;
+}
+
+/**
+ * Renders the slides in sync with the episode audio and muxes both into a video file.
+ * Encoding runs through WebCodecs, so it completes faster than real time and never leaves the browser.
+ */
+export const exportNarratedVideo = async ({
+  slideImages,
+  segments,
+  audio,
+  format,
+  burnSubtitles,
+  cast,
+  onProgress,
+}: VideoExportOptions): Promise<Blob> => {
+  if (slideImages.length === 0) throw new Error("No slide images to render.");
+
+  const outputFormat = format === 'mp4' ? new Mp4OutputFormat({ fastStart: 'in-memory' }) : new WebMOutputFormat();
+  const quality = new Quality('high');
+
+  const videoCodec = await getFirstEncodableVideoCodec(outputFormat.getSupportedVideoCodecs(), {
+    width: VIDEO_WIDTH,
+    height: VIDEO_HEIGHT,
+    quality,
+  });
+  const audioCodec = await getFirstEncodableAudioCodec(outputFormat.getSupportedAudioCodecs(), {
+    numberOfChannels: audio.numberOfChannels,
+    sampleRate: OUTPUT_SAMPLE_RATE,
+    quality,
+  });
+  if (!videoCodec || !audioCodec) {
+    throw new Error(`This browser cannot encode ${format.toUpperCase()} video.`);
+  }
+
+  const images = await Promise.all(slideImages.map(loadImage));
+  const resampled = await resampleAudio(audio, OUTPUT_SAMPLE_RATE);
+
+  const canvas = document.createElement('canvas');
+  canvas.width = VIDEO_WIDTH;
+  canvas.height = VIDEO_HEIGHT;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available.");
+
+  const output = new Output({ format: outputFormat, target: new BufferTarget() });
+  const videoSource = new CanvasSource(canvas, { codec: videoCodec, quality });
+  const audioSource = new AudioBufferSource({ codec: audioCodec, quality });
+  output.addVideoTrack(videoSource, { frameRate: FRAME_RATE });
+  output.addAudioTrack(audioSource);
+
+  try {
+    await output.start();
+    await audioSource.add(resampled);
+
+    const totalFrames = Math.ceil(resampled.duration * FRAME_RATE);
+    const frameDuration = 1 / FRAME_RATE;
+
+    for (let frame = 0; frame < totalFrames; frame++) {
+      const t = frame * frameDuration;
+      const { segment, speaking, interjection } = findSegmentAt(segments, t);
+      const slideIndex = Math.min(segment?.slideIndex ?? 0, images.length - 1);
+
+      drawSlide(ctx, images[slideIndex]);
+      if (burnSubtitles && segment && speaking) {
+        const top = drawSubtitle(ctx, segment, cast);
+        // Stack the overlapping interjection above the line it cuts into
+        if (interjection) drawSubtitle(ctx, interjection, cast, top - 12);
+      }
+
+      await videoSource.add(t, frameDuration);
+      onProgress?.((frame + 1) / totalFrames);
+    }
+
+    videoSource.close();
+    audioSource.close();
+    await output.finalize();
+  } catch (error) {
+    console.error("Error exporting video:", error);
+    await output.cancel();
+    throw error;
+  }
+
+  const buffer = output.target.buffer;
+  if (!buffer) throw new Error("Video export produced no data.");
+  return new Blob([buffer], { type: outputFormat.mimeType });
+};
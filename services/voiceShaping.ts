@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+import { CastMember } from '../types';
+
+export const MIN_SPEAKING_RATE = 0.75;
+export const MAX_SPEAKING_RATE = 1.5;
+export const MAX_PITCH_SEMITONES = 6; // Either way; beyond this voices start to sound processed
+
+const FRAME_SEC = 0.03;
+const SEEK_SEC = 0.008; // How far a frame may slide to line up with the previous one
+const SEEK_STRIDE = 4; // Correlate every 4th sample; plenty for lining up speech
+
+export const hasVoiceShaping = (member: Pick<CastMember, 'rate' | 'pitch'>): boolean =>
+  (member.rate ?? 1) !== 1 || (member.pitch ?? 0) !== 0;
+
+// Plays the clip `factor` times faster, raising the pitch with it
+const resample = (samples: Float32Array, factor: number): Float32Array => {
+  const output = new Float32Array(Math.max(1, Math.floor(samples.length / factor)));
+  for (let i = 0; i < output.length; i++) {
+    const position = i * factor;
+    const index = Math.floor(position);
+    const next = Math.min(index + 1, samples.length - 1);
+    output[i] = samples[index] + (samples[next] - samples[index]) * (position - index);
+  }
+  return output;
+};
+
+/**
+ * Changes duration by `speed` (2 = half as long) without changing pitch (WSOLA). Each frame
+ * is taken near its nominal position where it best continues the audio already written.
+ */
+export const timeStretch = (samples: Float32Array, sampleRate: number, speed: number): Float32Array => {
+  const frame = Math.round(FRAME_SEC * sampleRate);
+  const synthesisHop = Math.floor(frame / 2);
+  const analysisHop = synthesisHop * speed;
+  const seek = Math.round(SEEK_SEC * sampleRate);
+  if (samples.length < frame * 2 || speed === 1) return samples.slice();
+  const outputLength = Math.round(samples.length / speed);
+
+  const window = new Float32Array(frame);
+  for (let i = 0; i < frame; i++) window[i] = 0.5 - 0.5 * Math.cos(2 * Math.PI * i / frame);
+
+  const output = new Float32Array(outputLength + frame);
+  const weight = new Float32Array(outputLength + frame);
+  let previous = 0; // Input position of the frame written last
+
+  for (let k = 0, out = 0; out < outputLength; k++, out += synthesisHop) {
+    const nominal = Math.round(k * analysisHop);
+    let position = Math.min(nominal, samples.length - frame);
+
+    if (k > 0) {
+      // What would naturally follow the previous frame, and the candidate that matches it best
+      const natural = previous + synthesisHop;
+      let bestScore = -Infinity;
+      const from = Math.max(0, nominal - seek);
+      const to = Math.min(samples.length - frame, nominal + seek);
+      for (let candidate = from; candidate <= to; candidate++) {
+        let score = 0;
+        for (let i = 0; i < frame && natural + i < samples.length; i += SEEK_STRIDE) {
+          score += samples[candidate + i] * samples[natural + i];
+        }
+        if (score > bestScore) { bestScore = score; position = candidate; }
+      }
+    }
+    for (let i = 0; i < frame; i++) {
+      output[out + i] += samples[position + i] * window[i];
+      weight[out + i] += window[i];
+    }
+    previous = position;
+  }
+
+  for (let i = 0; i < outputLength; i++) {
+    if (weight[i] > 1e-3) output[i] /= weight[i];
+  }
+  return output.subarray(0, outputLength);
+};
+
+/**
+ * Applies a cast member's speaking rate and pitch (in semitones) to a synthesized clip.
+ * Pitch comes from resampling; the time stretch then brings the length to what the rate asks for.
+ */
+export const shapeVoice = (
+  samples: Float32Array,
+  sampleRate: number,
+  { rate = 1, pitch = 0 }: Pick<CastMember, 'rate' | 'pitch'>
+): Float32Array => {
+  const pitchFactor = Math.pow(2, pitch / 12);
+  const shifted = pitch !== 0 ? resample(samples, pitchFactor) : samples;
+  return timeStretch(shifted, sampleRate, rate / pitchFactor);
+};
@@ -0,0 +1,33 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+/**
+ * Reduces an audio file to `buckets` peak levels (0-1) for drawing a waveform.
+ * Decoding goes through an OfflineAudioContext, so no user gesture is needed.
+ */
+export const computeWaveformPeaks = async (audio: Blob, buckets: number): Promise<Float32Array> => {
+  const context = new OfflineAudioContext(1, 1, 24000);
+  const buffer = await context.decodeAudioData(await audio.arrayBuffer());
+  const samples = buffer.getChannelData(0);
+  const peaks = new Float32Array(buckets);
+  const bucketSize = samples.length / buckets;
+
+  let max = 0;
+  for (let b = 0; b < buckets; b++) {
+    const start = Math.floor(b * bucketSize);
+    const end = Math.min(samples.length, Math.floor((b + 1) * bucketSize));
+    let peak = 0;
+    for (let i = start; i < end; i++) {
+      const value = Math.abs(samples[i]);
+      if (value > peak) peak = value;
+    }
+    peaks[b] = peak;
+    if (peak > max) max = peak;
+  }
+
+  // Normalize so quiet episodes still fill the timeline
+  if (max > 0) for (let b = 0; b < buckets; b++) peaks[b] /= max;
+  return peaks;
+};
@@ -2,19 +2,37 @@
  * @license
  * SPDX-License-Identifier: Apache-2.0
 */
+import { VoiceData } from './voices';
+
 export interface IntroStyle {
   id: string;
   name: string;
   nameEn: string;
   description: string;
   descriptionEn: string;
-  defaultVoice: string; // Gemini voice name for Speaker 1 (Host)
-  secondVoice?: string; // Gemini voice name for Speaker 2 (Expert/Guest)
+  cast: StyleCastMember[]; // Speakers in order of appearance; the first one hosts
   templateText: string;
   color: 'red' | 'blue' | 'yellow' | 'white' | 'green' | 'black';
   icon: 'circle' | 'square' | 'triangle' | 'half-circle' | 'rect' | 'plus';
   avatarSrc?: string; // Path to avatar image
-  audioSrc?: string; // Path to pre-generated audio file
+  audioSrc?: string; // Default intro jingle, used when no intro file is attached
+}
+
+export interface StyleCastMember {
+  voice: string; // Gemini voice name
+  role: string; // Brief for the script writer
+  roleEn: string;
+  rate?: number; // Speaking-rate multiplier; 1 keeps the synthesized pace
+  pitch?: number; // Semitones up or down
+}
+
+export interface CastMember {
+  id: string; // Stored in ScriptSegment.speaker; also accepted as a script label ("Host:")
+  name: string; // Display name and script label
+  role: string;
+  voice: string;
+  rate?: number; // Speaking-rate multiplier applied after synthesis; 1 or absent keeps the voice's pace
+  pitch?: number; // Semitones, applied after synthesis
 }
 
 export interface VoiceOption {
@@ -25,8 +43,155 @@ export interface VoiceOption {
 export interface ScriptSegment {
   id: string;
   slideIndex: number; // 0-based index corresponding to image array
-  speaker: 'Host' | 'Expert';
+  speaker: string; // CastMember.id
   text: string;
   startTime: number; // Estimated or actual start time in seconds
   endTime: number; // Estimated or actual end time in seconds
-}
\ No newline at end of file
+  turn?: number; // Index of the script line (speaker turn) the sentence belongs to
+  pauseAfter?: number; // Seconds of silence from a `[PAUSE X]` marker; overrides PauseSettings
+  interjection?: boolean; // Back-channel line (`[OVERLAP]`) mixed over the end of the previous one
+  delivery?: string[]; // Cues from a `[DELIVERY ...]` marker on the turn, e.g. ["excited", "slower"]
+  emphasis?: string[]; // Words marked `*word*` in the sentence
+}
+
+export interface ScriptTurn {
+  speaker: string; // CastMember.id
+  text: string;
+}
+
+export interface ScriptSlide {
+  slide: number; // 1-based page number, as in `[SLIDE X]` markers
+  turns: ScriptTurn[];
+}
+
+// Script as returned by schema-constrained generation; the text view is rendered from it
+export interface StructuredScript {
+  slides: ScriptSlide[];
+}
+
+/** Inclusive, 1-based range of slides to regenerate. */
+export interface SlideRange {
+  from: number;
+  to: number;
+}
+
+/** A slide range plus the dialogue around it, so the rewrite joins up with its neighbours. */
+export interface ScriptSection extends SlideRange {
+  before: string;
+  after: string;
+}
+
+/** Everything needed to reopen a podcast where it was left: saved to and loaded from project files. */
+export interface Project {
+  language: 'ja' | 'en';
+  styleId: string;
+  customStylePrompt: string;
+  cast: CastMember[];
+  text: string;
+  structuredScript?: StructuredScript;
+  segments: ScriptSegment[]; // Timed against `audio` when it is present
+  pdfBase64?: string;
+  pdfName?: string;
+  audio?: Blob; // Generated WAV
+  pronunciations?: PronunciationEntry[]; // Project glossary, on top of the global one
+}
+
+/** Glossary entry: how a term in the script should be read out by the TTS voice. */
+export interface PronunciationEntry {
+  term: string; // As written in the script and subtitles
+  spoken: string; // As sent to the TTS provider
+  language: 'ja' | 'en';
+}
+
+/** Library listing entry for a locally saved project. */
+export interface ProjectSummary {
+  id: string;
+  title: string;
+  slideCount: number;
+  duration: number; // Seconds; estimated until audio has been generated
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface TtsCapabilities {
+  sampleRate: number; // Sample rate of the 16-bit mono PCM returned by synthesize()
+  multiSpeaker: boolean; // Can voice a whole dialogue in a single request
+  offline: boolean; // Works without internet access or an API key
+}
+
+export interface TtsProvider {
+  id: TtsProviderId;
+  label: string;
+  model: string; // Identifies the synthesis output; part of the audio cache key
+  capabilities: TtsCapabilities;
+  listVoices(): Promise<VoiceData[]>;
+  // 16-bit little-endian mono PCM. `instructions` is a speech-style direction such as "excited, slower";
+  // providers that can't follow one ignore it
+  synthesize(text: string, voiceName: string, signal?: AbortSignal, instructions?: string): Promise<Uint8Array>;
+}
+
+export type TtsProviderId = 'gemini' | 'http' | 'mock';
+
+/** Silence inserted between clips when the episode is stitched together, in seconds. */
+export interface PauseSettings {
+  sameSpeaker: number; // Between consecutive lines by the same speaker
+  speakerChange: number; // When another speaker takes over
+  slideChange: number; // When the conversation moves to the next slide
+  crossfade: number; // Every clip fades in over this long while the previous one fades out
+}
+
+export type MusicCue = 'intro' | 'outro' | 'bed' | 'sting'; // Sting: short jingle at each slide change
+
+/** Music levels in dB relative to the speech loudness. */
+export interface MusicSettings {
+  jingleLevel: number; // Intro, outro and stings
+  bedLevel: number; // Background bed while nobody is speaking
+  duckingDepth: number; // How far the bed and stings drop under speech
+}
+
+/** Processing applied to the synthesized clips before and after they are stitched together. */
+export interface MasteringSettings {
+  trimSilence: boolean; // Cut leading and trailing silence from each clip
+  normalizeLoudness: boolean; // Level each speaker to targetLufs and limit peaks to truePeakCeiling
+  targetLufs: number; // Integrated loudness, LUFS
+  truePeakCeiling: number; // dBTP
+}
+
+export interface TtsSettings {
+  provider: TtsProviderId;
+  httpEndpoint: string; // Base URL for the 'http' provider
+}
+
+export type LlmTask = 'script' | 'dramatize';
+
+export interface LlmRequest {
+  task: LlmTask;
+  prompt: string;
+  pdfBase64?: string; // Source deck for 'script' requests
+  input?: string; // Text being rewritten by 'dramatize' requests
+  responseSchema?: object; // JSON Schema the response must conform to
+}
+
+export interface LlmCapabilities {
+  pdfInput: boolean; // Reads the PDF natively; otherwise the prompt carries the extracted slide text
+  offline: boolean; // Works without internet access or an API key
+}
+
+export interface LlmProvider {
+  id: LlmProviderId;
+  label: string;
+  model: string;
+  capabilities: LlmCapabilities;
+  generateText(request: LlmRequest, signal?: AbortSignal): Promise<string>;
+}
+
+export type LlmProviderId = 'gemini' | 'openai' | 'fixture';
+
+export interface LlmSettings {
+  provider: LlmProviderId;
+  model: string; // Model name sent to the 'gemini' and 'openai' providers
+  endpoint: string; // Base URL of the OpenAI-compatible server, e.g. http://localhost:11434/v1
+  apiKey: string; // Optional bearer token for the OpenAI-compatible server
+  fixtureUrl: string; // Recorded responses for the 'fixture' provider; empty uses the built-in script
+  structuredOutput: boolean; // Request scripts as schema-constrained JSON instead of marked-up text
+}